@@ -1,7 +1,7 @@
 // Wire Agent - Browser Executor Background Script
 // Connects to Wire Agent Server via WebSocket and routes commands to content scripts
 
-const WS_URL = "ws://localhost:3888";
+const WS_URL = "ws://127.0.0.1:3888";
 const RECONNECT_INTERVAL = 5000; // 5 seconds between retries
 const MAX_RECONNECT_INTERVAL = 30000; // Max 30 seconds
 
@@ -10,6 +10,14 @@ let isConnected = false;
 let reconnectTimer = null;
 let reconnectAttempts = 0;
 let hasLoggedDisconnect = false;
+let authToken = ""; // Shared secret from the side panel, sent with every register
+let executorTags = []; // Labels from the side panel for server-side selectors
+const PROTOCOL_VERSION = 3; // PROTOCOL_VERSION of @wire-agent/protocol
+const ATTACHMENT_CHUNK_SIZE = 256 * 1024; // Bytes per binary frame, before the header
+const resumeTokens = new Map(); // executorId -> token from its last welcome, resumes it after a reconnect
+let outbox = []; // { executorId, result } finished while disconnected, sent once that executor resumed
+let serverProtocolVersion = 1; // From the welcome; binary attachments need 3
+const registeredTabs = new Set(); // Tabs registered on this connection; the server drops state for others
 
 // Generate executor ID based on extension ID
 function getExecutorId(tabId) {
@@ -31,8 +39,9 @@ function connect() {
   try {
     ws = new WebSocket(WS_URL);
 
-    ws.onopen = () => {
+    ws.onopen = async () => {
       console.log("[WireAgent] Connected to server");
+      ({ token: authToken = "", tags: executorTags = [] } = await chrome.storage.local.get(["token", "tags"]));
       isConnected = true;
       reconnectAttempts = 0;
       hasLoggedDisconnect = false;
@@ -52,12 +61,18 @@ function connect() {
       }
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
+      // 4001/4003: rejected by the server, usually a wrong token; 4026: protocol too old
+      if (event.code === 4001 || event.code === 4003 || event.code === 4026) {
+        console.warn("[WireAgent] Rejected by server:", event.reason);
+      }
       if (!hasLoggedDisconnect && isConnected) {
         console.log("[WireAgent] Disconnected from server");
         hasLoggedDisconnect = true;
       }
       isConnected = false;
+      serverProtocolVersion = 1;
+      registeredTabs.clear();
       ws = null;
       broadcastStatus(false);
       scheduleReconnect();
@@ -105,6 +120,10 @@ function registerBrowserExecutor() {
   console.log("[WireAgent] Registering browser executor");
   send({
     type: "register",
+    protocolVersion: PROTOCOL_VERSION,
+    token: authToken,
+    tags: executorTags,
+    resumeToken: resumeTokens.get("browser"),
     executorId: "browser",
     platform: "browser",
     capabilities: [
@@ -183,6 +202,9 @@ function registerBrowserExecutor() {
       "getPerformance",
       "getWindowInfo",
       "getAccessibilityTree",
+      // DOM mutation observer
+      "observeDOM",
+      "stopObserveDOM",
     ],
     meta: {
       userAgent: navigator.userAgent,
@@ -205,8 +227,13 @@ async function registerAllTabs() {
 
 function registerTab(tab) {
   console.log("[WireAgent] Registering tab:", tab.id, tab.url);
+  registeredTabs.add(tab.id);
   send({
     type: "register",
+    protocolVersion: PROTOCOL_VERSION,
+    token: authToken,
+    tags: executorTags,
+    resumeToken: resumeTokens.get(getExecutorId(tab.id)),
     executorId: getExecutorId(tab.id),
     platform: "browser",
     capabilities: [
@@ -287,6 +314,9 @@ function registerTab(tab) {
       "getWindowInfo",
       // Accessibility
       "getAccessibilityTree",
+      // DOM mutation observer
+      "observeDOM",
+      "stopObserveDOM",
     ],
     meta: {
       url: tab.url,
@@ -299,20 +329,106 @@ function registerTab(tab) {
 }
 
 function unregisterTab(tabId) {
+  registeredTabs.delete(tabId);
+  // A closed tab never resumes
+  resumeTokens.delete(getExecutorId(tabId));
+  outbox = outbox.filter((entry) => entry.executorId !== getExecutorId(tabId));
   // Server will handle cleanup when connection drops
   // For now, we don't send explicit unregister
 }
 
+// ============================================================
+// Binary Attachments
+// ============================================================
+
+// Uint8Arrays in the result data go as binary attachments to servers that
+// take them, and as base64 strings to older ones
+async function deliverResult(result) {
+  const attachments = [];
+  const pack = async (value) => {
+    if (value instanceof Uint8Array) {
+      if (serverProtocolVersion < 3) return bytesToBase64(value);
+      const id = `${result.id}:${attachments.length}`;
+      attachments.push(await sendAttachment(id, value));
+      return { $attachment: id };
+    }
+    if (Array.isArray(value)) {
+      const packed = [];
+      for (const item of value) packed.push(await pack(item));
+      return packed;
+    }
+    if (value && typeof value === "object") {
+      const packed = {};
+      for (const [key, item] of Object.entries(value)) packed[key] = await pack(item);
+      return packed;
+    }
+    return value;
+  };
+
+  const data = await pack(result.data);
+  send(attachments.length > 0 ? { ...result, data, attachments } : { ...result, data });
+}
+
+async function sendAttachment(id, bytes) {
+  let chunks = 0;
+  for (let offset = 0; offset < bytes.length || chunks === 0; offset += ATTACHMENT_CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, offset + ATTACHMENT_CHUNK_SIZE);
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", chunk));
+    const sha256 = Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+    ws.send(encodeChunkFrame({ attachmentId: id, index: chunks++, sha256 }, chunk));
+  }
+  return { id, size: bytes.length, chunks };
+}
+
+// uint32 big-endian header length | header JSON | chunk bytes, as encodeChunkFrame
+// in @wire-agent/protocol
+function encodeChunkFrame(header, bytes) {
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(4 + json.length + bytes.length);
+  new DataView(frame.buffer).setUint32(0, json.length);
+  frame.set(json, 4);
+  frame.set(bytes, 4 + json.length);
+  return frame;
+}
+
+function bytesToBase64(bytes) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
 // ============================================================
 // Handle Server Commands
 // ============================================================
 
 async function handleServerMessage(message) {
-  if (message.type === "execute") {
+  if (message.type === "welcome") {
+    resumeTokens.set(message.executorId, message.resumeToken);
+    serverProtocolVersion = message.protocolVersion;
+    const held = outbox.filter((entry) => entry.executorId === message.executorId);
+    outbox = outbox.filter((entry) => entry.executorId !== message.executorId);
+    // Only a resumed registration still waits for these results
+    if (message.resumed) {
+      for (const { result } of held) {
+        await deliverResult(result);
+      }
+    }
+  } else if (message.type === "error") {
+    console.warn("[WireAgent] Server dropped a message:", message.error);
+  } else if (message.type === "rejected") {
+    console.warn("[WireAgent] Registration rejected:", message.code, message.reason);
+  } else if (message.type === "execute") {
     const result = await executeCommand(message);
     // Notify panel of result
     notifyCommandResult(message.action, result.success);
-    send(result);
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      await deliverResult(result);
+    } else {
+      // Servers that do not say which executor a command is for sent it to "browser"
+      outbox.push({ executorId: message.executorId ?? "browser", result });
+    }
   } else if (message.type === "control") {
     if (message.action === "ping") {
       send({ type: "pong", executorId: "browser", timestamp: Date.now() });
@@ -378,7 +494,7 @@ async function executeCommand(command) {
     if (action === "tabClose") {
       const targetTabId = params.tabId || tabId;
       if (!targetTabId) {
-        return { type: "result", id, success: false, error: "No tab specified" };
+        return { type: "result", id, success: false, error: "No tab specified", code: "INVALID_PARAMS" };
       }
       await chrome.tabs.remove(targetTabId);
       return { type: "result", id, success: true };
@@ -392,7 +508,7 @@ async function executeCommand(command) {
     if (action === "tabReload") {
       const targetTabId = params.tabId || tabId;
       if (!targetTabId) {
-        return { type: "result", id, success: false, error: "No tab specified" };
+        return { type: "result", id, success: false, error: "No tab specified", code: "INVALID_PARAMS" };
       }
       await chrome.tabs.reload(targetTabId, { bypassCache: params.bypassCache || false });
       return { type: "result", id, success: true };
@@ -401,7 +517,7 @@ async function executeCommand(command) {
     if (action === "tabDuplicate") {
       const targetTabId = params.tabId || tabId;
       if (!targetTabId) {
-        return { type: "result", id, success: false, error: "No tab specified" };
+        return { type: "result", id, success: false, error: "No tab specified", code: "INVALID_PARAMS" };
       }
       const newTab = await chrome.tabs.duplicate(targetTabId);
       return { type: "result", id, success: true, data: { tabId: newTab.id } };
@@ -446,8 +562,9 @@ async function executeCommand(command) {
 
     if (action === "screenshot") {
       const dataUrl = await chrome.tabs.captureVisibleTab(null, { format: "png" });
-      const base64 = dataUrl.replace(/^data:image\/png;base64,/, "");
-      return { type: "result", id, success: true, data: base64 };
+      // Raw bytes, sent as a binary attachment
+      const bytes = new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+      return { type: "result", id, success: true, data: bytes };
     }
 
     // ============================================================
@@ -528,6 +645,23 @@ function notifyCommandResult(action, success) {
   }).catch(() => {});
 }
 
+// ============================================================
+// Executor Events
+// ============================================================
+
+// Events go to the "browser" executor, which is always registered; tabId
+// tells which tab they came from
+function sendEvent(tabId, event, data) {
+  if (!isConnected) return;
+  send({
+    type: "event",
+    executorId: "browser",
+    event,
+    timestamp: Date.now(),
+    data: { tabId, ...data },
+  });
+}
+
 // ============================================================
 // Tab Event Listeners
 // ============================================================
@@ -535,14 +669,28 @@ function notifyCommandResult(action, success) {
 chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   if (isConnected && changeInfo.status === "complete" && tab.url) {
     // Update state
-    send({
-      type: "state",
-      executorId: getExecutorId(tabId),
-      meta: { url: tab.url, title: tab.title },
-    });
+    if (registeredTabs.has(tabId)) {
+      send({
+        type: "state",
+        executorId: getExecutorId(tabId),
+        meta: { url: tab.url, title: tab.title },
+      });
+    }
+    sendEvent(tabId, "navigation", { url: tab.url, title: tab.title });
   }
 });
 
+// Downloads belong to no tab, so their events carry no tabId
+chrome.downloads.onCreated.addListener((item) => {
+  sendEvent(undefined, "download", { downloadId: item.id, url: item.url, state: item.state });
+});
+
+chrome.downloads.onChanged.addListener((delta) => {
+  const state = delta.state?.current;
+  if (state !== "complete" && state !== "interrupted") return;
+  sendEvent(undefined, "download", { downloadId: delta.id, state, error: delta.error?.current });
+});
+
 chrome.tabs.onRemoved.addListener((tabId) => {
   unregisterTab(tabId);
 });
@@ -578,6 +726,12 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  // Events observed by content scripts (console, dialogs, DOM mutations)
+  if (message.type === "EXECUTOR_EVENT" && sender.tab) {
+    sendEvent(sender.tab.id, message.event, message.data);
+    return false;
+  }
+
   if (message.type === "RECONNECT") {
     connect();
     sendResponse({ ok: true });
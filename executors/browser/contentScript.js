@@ -98,7 +98,7 @@ const actionHandlers = {
   click: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     el.click();
     return { success: true };
@@ -107,7 +107,7 @@ const actionHandlers = {
   doubleClick: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const event = new MouseEvent("dblclick", {
       bubbles: true,
@@ -121,7 +121,7 @@ const actionHandlers = {
   rightClick: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const event = new MouseEvent("contextmenu", {
       bubbles: true,
@@ -136,7 +136,7 @@ const actionHandlers = {
   hover: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const mouseEnter = new MouseEvent("mouseenter", {
       bubbles: true,
@@ -156,10 +156,10 @@ const actionHandlers = {
   type: async ({ selector, selectorType, text, clearFirst }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el.isContentEditable)) {
-      return { success: false, error: "Element is not editable" };
+      return { success: false, error: "Element is not editable", code: "INVALID_PARAMS" };
     }
 
     el.focus();
@@ -188,7 +188,7 @@ const actionHandlers = {
   scroll: async ({ direction, amount = 300, selector }) => {
     const target = selector ? findElement(selector) : window;
     if (selector && !target) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     const scrollOptions = { behavior: "smooth" };
@@ -245,13 +245,13 @@ const actionHandlers = {
       await new Promise((resolve) => setTimeout(resolve, 100));
     }
 
-    return { success: false, error: `Timeout waiting for ${selector} to be ${state}` };
+    return { success: false, error: `Timeout waiting for ${selector} to be ${state}`, code: "TIMEOUT" };
   },
 
   getContent: async ({ selector, includeHtml }) => {
     const el = selector ? findElement(selector) : document.body;
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     const data = includeHtml ? el.outerHTML : el.innerText;
@@ -261,7 +261,7 @@ const actionHandlers = {
   getAttribute: async ({ selector, attribute }) => {
     const el = findElement(selector);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     const data = el.getAttribute(attribute);
@@ -284,7 +284,7 @@ const actionHandlers = {
     if (selector) {
       const el = findElement(selector, selectorType);
       if (!el) {
-        return { success: false, error: `Element not found: ${selector}` };
+        return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
       }
       el.focus();
     }
@@ -311,11 +311,11 @@ const actionHandlers = {
   dragDrop: async ({ sourceSelector, targetSelector, selectorType }) => {
     const source = findElement(sourceSelector, selectorType);
     if (!source) {
-      return { success: false, error: `Source element not found: ${sourceSelector}` };
+      return { success: false, error: `Source element not found: ${sourceSelector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const target = findElement(targetSelector, selectorType);
     if (!target) {
-      return { success: false, error: `Target element not found: ${targetSelector}` };
+      return { success: false, error: `Target element not found: ${targetSelector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     const sourceRect = source.getBoundingClientRect();
@@ -376,7 +376,7 @@ const actionHandlers = {
 
     const elements = findAllElements(selector, selectorType);
     if (elements.length === 0) {
-      return { success: false, error: `No elements found: ${selector}` };
+      return { success: false, error: `No elements found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     elements.forEach((el) => {
@@ -407,10 +407,10 @@ const actionHandlers = {
   select: async ({ selector, value, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLSelectElement)) {
-      return { success: false, error: "Element is not a select element" };
+      return { success: false, error: "Element is not a select element", code: "INVALID_PARAMS" };
     }
 
     const values = Array.isArray(value) ? value : [value];
@@ -429,7 +429,7 @@ const actionHandlers = {
     }
 
     if (selectedCount === 0) {
-      return { success: false, error: `No options matched: ${JSON.stringify(values)}` };
+      return { success: false, error: `No options matched: ${JSON.stringify(values)}`, code: "INVALID_PARAMS" };
     }
 
     el.dispatchEvent(new Event("change", { bubbles: true }));
@@ -439,7 +439,7 @@ const actionHandlers = {
   focus: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     el.focus();
     return { success: true };
@@ -448,7 +448,7 @@ const actionHandlers = {
   blur: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     el.blur();
     return { success: true };
@@ -495,10 +495,10 @@ const actionHandlers = {
   formSubmit: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLFormElement)) {
-      return { success: false, error: "Element is not a form" };
+      return { success: false, error: "Element is not a form", code: "INVALID_PARAMS" };
     }
     el.submit();
     return { success: true };
@@ -507,10 +507,10 @@ const actionHandlers = {
   formReset: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLFormElement)) {
-      return { success: false, error: "Element is not a form" };
+      return { success: false, error: "Element is not a form", code: "INVALID_PARAMS" };
     }
     el.reset();
     return { success: true };
@@ -519,10 +519,10 @@ const actionHandlers = {
   checkbox: async ({ selector, checked, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLInputElement) || (el.type !== "checkbox" && el.type !== "radio")) {
-      return { success: false, error: "Element is not a checkbox or radio button" };
+      return { success: false, error: "Element is not a checkbox or radio button", code: "INVALID_PARAMS" };
     }
     el.checked = checked;
     el.dispatchEvent(new Event("change", { bubbles: true }));
@@ -564,7 +564,7 @@ const actionHandlers = {
   getElementInfo: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const rect = el.getBoundingClientRect();
     const styles = window.getComputedStyle(el);
@@ -596,7 +596,7 @@ const actionHandlers = {
   getBoundingRect: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const rect = el.getBoundingClientRect();
     return {
@@ -631,7 +631,7 @@ const actionHandlers = {
   isEnabled: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     return { success: true, data: !el.disabled };
   },
@@ -669,7 +669,7 @@ const actionHandlers = {
   selectText: async ({ selector, start, end, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
@@ -700,7 +700,7 @@ const actionHandlers = {
       if (selector) {
         const el = findElement(selector, selectorType);
         if (!el) {
-          return { success: false, error: `Element not found: ${selector}` };
+          return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
         }
         text = el.textContent || "";
       } else {
@@ -716,7 +716,7 @@ const actionHandlers = {
   getText: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     return { success: true, data: el.textContent || "" };
   },
@@ -728,10 +728,10 @@ const actionHandlers = {
   mediaPlay: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLMediaElement)) {
-      return { success: false, error: "Element is not a media element" };
+      return { success: false, error: "Element is not a media element", code: "INVALID_PARAMS" };
     }
     try {
       await el.play();
@@ -744,10 +744,10 @@ const actionHandlers = {
   mediaPause: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLMediaElement)) {
-      return { success: false, error: "Element is not a media element" };
+      return { success: false, error: "Element is not a media element", code: "INVALID_PARAMS" };
     }
     el.pause();
     return { success: true };
@@ -756,10 +756,10 @@ const actionHandlers = {
   mediaSetVolume: async ({ selector, volume, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLMediaElement)) {
-      return { success: false, error: "Element is not a media element" };
+      return { success: false, error: "Element is not a media element", code: "INVALID_PARAMS" };
     }
     el.volume = Math.max(0, Math.min(1, volume));
     return { success: true };
@@ -768,10 +768,10 @@ const actionHandlers = {
   mediaGetState: async ({ selector, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     if (!(el instanceof HTMLMediaElement)) {
-      return { success: false, error: "Element is not a media element" };
+      return { success: false, error: "Element is not a media element", code: "INVALID_PARAMS" };
     }
     return {
       success: true,
@@ -794,7 +794,7 @@ const actionHandlers = {
   clickAtPosition: async ({ x, y, button = "left" }) => {
     const el = document.elementFromPoint(x, y);
     if (!el) {
-      return { success: false, error: `No element at position (${x}, ${y})` };
+      return { success: false, error: `No element at position (${x}, ${y})`, code: "ELEMENT_NOT_FOUND" };
     }
 
     const eventOptions = {
@@ -816,7 +816,7 @@ const actionHandlers = {
   hoverAtPosition: async ({ x, y }) => {
     const el = document.elementFromPoint(x, y);
     if (!el) {
-      return { success: false, error: `No element at position (${x}, ${y})` };
+      return { success: false, error: `No element at position (${x}, ${y})`, code: "ELEMENT_NOT_FOUND" };
     }
 
     const eventOptions = {
@@ -841,7 +841,7 @@ const actionHandlers = {
   scrollIntoView: async ({ selector, selectorType, behavior = "smooth", block = "center" }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     el.scrollIntoView({ behavior, block });
     return { success: true };
@@ -850,7 +850,7 @@ const actionHandlers = {
   getComputedStyle: async ({ selector, property, selectorType }) => {
     const el = findElement(selector, selectorType);
     if (!el) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
     const styles = window.getComputedStyle(el);
     if (property) {
@@ -873,7 +873,7 @@ const actionHandlers = {
     if (selector) {
       const el = findElement(selector, selectorType);
       if (!el) {
-        return { success: false, error: `Element not found: ${selector}` };
+        return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
       }
       return {
         success: true,
@@ -904,7 +904,7 @@ const actionHandlers = {
     if (selector) {
       const el = findElement(selector, selectorType);
       if (!el) {
-        return { success: false, error: `Element not found: ${selector}` };
+        return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
       }
       el.scrollTo({ left: x, top: y, behavior });
     } else {
@@ -971,7 +971,7 @@ const actionHandlers = {
   getAccessibilityTree: async ({ selector, selectorType }) => {
     const root = selector ? findElement(selector, selectorType) : document.body;
     if (!root) {
-      return { success: false, error: `Element not found: ${selector}` };
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
     }
 
     function getAccessibilityInfo(el, depth = 0) {
@@ -1000,8 +1000,104 @@ const actionHandlers = {
 
     return { success: true, data: getAccessibilityInfo(root) };
   },
+
+  // ============================================================
+  // DOM Mutation Observer
+  // ============================================================
+
+  observeDOM: async ({ selector, selectorType, options }) => {
+    const target = findElement(selector, selectorType);
+    if (!target) {
+      return { success: false, error: `Element not found: ${selector}`, code: "ELEMENT_NOT_FOUND" };
+    }
+
+    const observerId = `obs_${++observerCounter}`;
+    let queued = [];
+    let flushTimer = null;
+    const flush = () => {
+      flushTimer = null;
+      const mutations = queued;
+      queued = [];
+      reportEvent("domMutation", {
+        observerId,
+        selector,
+        count: mutations.length,
+        mutations: mutations.slice(0, MAX_REPORTED_MUTATIONS).map(describeMutation),
+      });
+    };
+
+    const observer = new MutationObserver((records) => {
+      queued.push(...records);
+      flushTimer ??= setTimeout(flush, MUTATION_FLUSH_INTERVAL);
+    });
+    observer.observe(target, options ?? { childList: true, subtree: true });
+    observers.set(observerId, observer);
+
+    return { success: true, data: { observerId } };
+  },
+
+  stopObserveDOM: async ({ observerId }) => {
+    const observer = observers.get(observerId);
+    if (!observer) {
+      return { success: false, error: `Unknown observer: ${observerId}`, code: "INVALID_PARAMS" };
+    }
+    observer.disconnect();
+    observers.delete(observerId);
+    return { success: true };
+  },
 };
 
+// Mutations are batched into one domMutation event per observer per interval
+const MUTATION_FLUSH_INTERVAL = 250;
+const MAX_REPORTED_MUTATIONS = 20;
+const observers = new Map();
+let observerCounter = 0;
+
+function describeNode(node) {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return node.nodeName.toLowerCase();
+  }
+  const id = node.id ? `#${node.id}` : "";
+  const classes = typeof node.className === "string" && node.className.trim()
+    ? `.${node.className.trim().split(/\s+/).join(".")}`
+    : "";
+  return `${node.tagName.toLowerCase()}${id}${classes}`;
+}
+
+function describeMutation(record) {
+  return {
+    type: record.type,
+    target: describeNode(record.target),
+    attributeName: record.attributeName ?? undefined,
+    added: record.addedNodes.length || undefined,
+    removed: record.removedNodes.length || undefined,
+  };
+}
+
+// ============================================================
+// Page Events
+// ============================================================
+
+function reportEvent(event, data) {
+  chrome.runtime.sendMessage({ type: "EXECUTOR_EVENT", event, data }).catch(() => {});
+}
+
+window.addEventListener("error", (e) => {
+  reportEvent("console", {
+    level: "error",
+    message: e.message,
+    source: e.filename,
+    line: e.lineno,
+  });
+});
+
+window.addEventListener("unhandledrejection", (e) => {
+  reportEvent("console", {
+    level: "error",
+    message: `Unhandled rejection: ${e.reason?.message ?? String(e.reason)}`,
+  });
+});
+
 // ============================================================
 // Message Handler
 // ============================================================
@@ -1012,7 +1108,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     const handler = actionHandlers[action];
 
     if (!handler) {
-      sendResponse({ success: false, error: `Unknown action: ${action}` });
+      sendResponse({ success: false, error: `Unknown action: ${action}`, code: "NOT_SUPPORTED" });
       return true;
     }
 
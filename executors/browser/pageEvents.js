@@ -0,0 +1,62 @@
+// Wire Agent - Browser Executor Page Script
+// Runs in the page's own JavaScript world (the content script cannot see its
+// console or dialogs) and sends what it observes to pageEventsRelay.js
+
+(() => {
+  const SOURCE = "wire-agent-page";
+  const MAX_MESSAGE_LENGTH = 2000;
+
+  // Events go over a channel of our own rather than window messages, which
+  // any page script could forge. Its other end is handed to the relay before
+  // page scripts run; they can at most listen in, not post into it.
+  const channel = new MessageChannel();
+  window.postMessage({ source: SOURCE, type: "connect" }, "*", [channel.port2]);
+
+  function post(event, data) {
+    channel.port1.postMessage({ event, data });
+  }
+
+  function describe(value) {
+    if (typeof value === "string") return value;
+    if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+
+  function format(args) {
+    const message = args.map(describe).join(" ");
+    return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+  }
+
+  // ============================================================
+  // Console
+  // ============================================================
+
+  for (const level of ["log", "info", "warn", "error", "debug"]) {
+    const original = console[level];
+    console[level] = function (...args) {
+      try {
+        post("console", { level, message: format(args) });
+      } catch {
+        // Never break the page's logging
+      }
+      return original.apply(this, args);
+    };
+  }
+
+  // ============================================================
+  // Dialogs
+  // ============================================================
+
+  // Reported before the dialog blocks the page
+  for (const kind of ["alert", "confirm", "prompt"]) {
+    const original = window[kind];
+    window[kind] = function (...args) {
+      post("dialog", { kind, message: args[0] === undefined ? "" : String(args[0]) });
+      return original.apply(this, args);
+    };
+  }
+})();
@@ -0,0 +1,20 @@
+// Wire Agent - Browser Executor Page Event Relay
+// Runs at document_start like pageEvents.js, takes the channel it opens and
+// forwards its console messages and dialogs to the background script
+
+(() => {
+  const SOURCE = "wire-agent-page";
+
+  function onConnect(e) {
+    if (e.source !== window || e.data?.source !== SOURCE || e.data.type !== "connect" || !e.ports[0]) return;
+    // pageEvents.js connects before any page script runs; later connects are forged
+    window.removeEventListener("message", onConnect);
+    e.ports[0].onmessage = ({ data }) => {
+      if (data?.event === "console" || data?.event === "dialog") {
+        chrome.runtime.sendMessage({ type: "EXECUTOR_EVENT", event: data.event, data: data.data }).catch(() => {});
+      }
+    };
+  }
+
+  window.addEventListener("message", onConnect);
+})();
@@ -4,6 +4,10 @@ const statusDot = document.getElementById("statusDot");
 const statusText = document.getElementById("statusText");
 const reconnectBtn = document.getElementById("reconnectBtn");
 const commandList = document.getElementById("commandList");
+const tokenInput = document.getElementById("tokenInput");
+const tokenSaveBtn = document.getElementById("tokenSaveBtn");
+const tagsInput = document.getElementById("tagsInput");
+const tagsSaveBtn = document.getElementById("tagsSaveBtn");
 
 let commands = [];
 const MAX_COMMANDS = 20;
@@ -83,6 +87,23 @@ reconnectBtn.addEventListener("click", () => {
   });
 });
 
+// Reconnect with the new token so the server re-authenticates us
+tokenSaveBtn.addEventListener("click", async () => {
+  await chrome.storage.local.set({ token: tokenInput.value.trim() });
+  chrome.runtime.sendMessage({ type: "RECONNECT" }, () => {
+    setTimeout(refreshStatus, 1000);
+  });
+});
+
+// Re-register with the new tags
+tagsSaveBtn.addEventListener("click", async () => {
+  const tags = tagsInput.value.split(",").map((t) => t.trim()).filter(Boolean);
+  await chrome.storage.local.set({ tags });
+  chrome.runtime.sendMessage({ type: "RECONNECT" }, () => {
+    setTimeout(refreshStatus, 1000);
+  });
+});
+
 // ============================================================
 // Message Listener
 // ============================================================
@@ -121,6 +142,11 @@ function refreshStatus() {
   });
 }
 
+chrome.storage.local.get(["token", "tags"]).then(({ token, tags }) => {
+  tokenInput.value = token || "";
+  tagsInput.value = (tags || []).join(", ");
+});
+
 refreshStatus();
 setInterval(refreshStatus, 3000);
 
@@ -1,25 +1,56 @@
 import WebSocket from "ws";
 import os from "os";
+import { createHash } from "crypto";
 import {
+  ATTACHMENT_CHUNK_SIZE,
+  AttachmentRef,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  encodeChunkFrame,
   ExecutorRegister,
   ExecuteCommand,
   ExecuteResult,
-  ControlCommand,
+  ExecuteProgress,
+  ServerMessage,
+  CLOSE_CODES,
+  PROTOCOL_VERSION,
+  validateServerMessage,
   DesktopOS,
   DESKTOP_CAPABILITIES,
 } from "@wire-agent/protocol";
-import { ActionHandlers } from "./handlers/index.js";
+import { ActionHandlers, errorResult } from "./handlers/index.js";
+
+export interface DesktopExecutorOptions {
+  // Shared secret matching the server's WIRE_AGENT_TOKEN
+  token?: string;
+  // PEM CA (or self-signed cert) to trust for wss://, replacing the system CAs
+  ca?: string | Buffer;
+  // Labels the server can select this executor by, e.g. "tag=staging"
+  tags?: string[];
+  // Largest frame accepted from the server, in bytes
+  maxMessageSize?: number;
+}
 
 export class DesktopExecutor {
   private ws: WebSocket | null = null;
   private wsUrl: string;
+  private options: DesktopExecutorOptions;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private readonly RECONNECT_INTERVAL = 3000;
   private executorId: string;
   private handlers: ActionHandlers;
+  // In-flight commands, aborted on server cancel or timeout
+  private inflight: Map<string, AbortController> = new Map();
+  // From the server's last welcome; sent on reconnect to resume
+  private resumeToken: string | undefined;
+  // Results finished while disconnected, sent once the registration resumes
+  private outbox: ExecuteResult[] = [];
+  // From the welcome: binary attachments need version 3
+  private serverVersion = 1;
+  private chunkSize = ATTACHMENT_CHUNK_SIZE;
 
-  constructor(wsUrl: string) {
+  constructor(wsUrl: string, options: DesktopExecutorOptions = {}) {
     this.wsUrl = wsUrl;
+    this.options = options;
     this.executorId = this.generateExecutorId();
     this.handlers = new ActionHandlers();
   }
@@ -56,7 +87,11 @@ export class DesktopExecutor {
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.wsUrl);
+        // With a pinned CA only certificates it issued are accepted
+        this.ws = new WebSocket(this.wsUrl, {
+          ...(this.options.ca ? { ca: this.options.ca } : {}),
+          maxPayload: this.options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE,
+        });
 
         this.ws.on("open", () => {
           console.log("[DesktopExecutor] Connected to server");
@@ -67,15 +102,33 @@ export class DesktopExecutor {
         this.ws.on("message", async (data: Buffer) => {
           try {
             const message = JSON.parse(data.toString());
-            await this.handleMessage(message);
+            const checked = validateServerMessage(message);
+            if (!checked.ok) {
+              this.refuse(message, checked.error);
+              return;
+            }
+            await this.handleMessage(checked.message);
           } catch (err) {
             console.error("[DesktopExecutor] Failed to handle message:", err);
           }
         });
 
-        this.ws.on("close", () => {
-          console.log("[DesktopExecutor] Disconnected from server");
+        this.ws.on("close", (code: number, reason: Buffer) => {
           this.ws = null;
+          // The next server may be older; nothing binary until its welcome
+          this.serverVersion = 1;
+          // Retrying with the same credentials would be rejected again
+          if (code === CLOSE_CODES.UNAUTHORIZED || code === CLOSE_CODES.ORIGIN_NOT_ALLOWED) {
+            console.error(
+              `[DesktopExecutor] Rejected by server: ${reason.toString()} (check WIRE_AGENT_TOKEN)`
+            );
+            return;
+          }
+          if (code === CLOSE_CODES.UNSUPPORTED_VERSION) {
+            console.error(`[DesktopExecutor] Rejected by server: ${reason.toString()} (upgrade the executor)`);
+            return;
+          }
+          console.log("[DesktopExecutor] Disconnected from server");
           this.scheduleReconnect();
         });
 
@@ -118,11 +171,49 @@ export class DesktopExecutor {
     }
   }
 
+  private sendResult(result: ExecuteResult): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.deliver(result);
+    } else {
+      console.log(`[DesktopExecutor] Disconnected, holding result of ${result.id}`);
+      this.outbox.push(result);
+    }
+  }
+
+  // Buffers in the result data go as binary attachments to servers that take
+  // them, and as base64 strings to older ones
+  private deliver(result: ExecuteResult): void {
+    const attachments: AttachmentRef[] = [];
+    const data = replaceBuffers(result.data, (bytes) => {
+      if (this.serverVersion < 3) {
+        return bytes.toString("base64");
+      }
+      const id = `${result.id}:${attachments.length}`;
+      attachments.push(this.sendAttachment(id, bytes));
+      return { $attachment: id };
+    });
+    this.send(attachments.length > 0 ? { ...result, data, attachments } : { ...result, data });
+  }
+
+  private sendAttachment(id: string, bytes: Buffer): AttachmentRef {
+    let chunks = 0;
+    for (let offset = 0; offset < bytes.length || chunks === 0; offset += this.chunkSize) {
+      const chunk = bytes.subarray(offset, offset + this.chunkSize);
+      const sha256 = createHash("sha256").update(chunk).digest("hex");
+      this.ws?.send(encodeChunkFrame({ attachmentId: id, index: chunks++, sha256 }, chunk));
+    }
+    return { id, size: bytes.length, chunks };
+  }
+
   private register(): void {
     const registration: ExecutorRegister = {
       type: "register",
+      protocolVersion: PROTOCOL_VERSION,
       executorId: this.executorId,
       platform: "desktop",
+      token: this.options.token,
+      tags: this.options.tags,
+      resumeToken: this.resumeToken,
       capabilities: [...DESKTOP_CAPABILITIES],
       meta: {
         os: this.getOS(),
@@ -136,12 +227,56 @@ export class DesktopExecutor {
     console.log(`[DesktopExecutor] Registered as ${this.executorId}`);
   }
 
-  private async handleMessage(
-    message: ExecuteCommand | ControlCommand
-  ): Promise<void> {
-    if (message.type === "execute") {
-      const result = await this.executeAction(message);
+  // Answer a malformed command so the server is not left waiting for it
+  private refuse(message: { type?: unknown; id?: unknown }, error: string): void {
+    console.error(`[DesktopExecutor] Dropped message: ${error}`);
+    if (message?.type === "execute" && typeof message.id === "string") {
+      const result: ExecuteResult = { type: "result", id: message.id, success: false, error, code: "INVALID_PARAMS" };
       this.send(result);
+    }
+  }
+
+  private async handleMessage(message: ServerMessage): Promise<void> {
+    if (message.type === "welcome") {
+      if (message.protocolVersion < PROTOCOL_VERSION) {
+        console.warn(
+          `[DesktopExecutor] Server speaks protocol version ${message.protocolVersion}, this executor ${PROTOCOL_VERSION}`
+        );
+      }
+      this.resumeToken = message.resumeToken;
+      this.serverVersion = message.protocolVersion;
+      // Leave room for the chunk header
+      this.chunkSize = Math.max(1024, Math.min(ATTACHMENT_CHUNK_SIZE, message.limits.maxMessageBytes - 1024));
+      const held = this.outbox.splice(0);
+      if (message.resumed) {
+        console.log(`[DesktopExecutor] Resumed, sending ${held.length} held result(s)`);
+        held.forEach((result) => this.deliver(result));
+      } else if (held.length > 0) {
+        // A new registration has no pending requests to deliver them to
+        console.log(`[DesktopExecutor] Registration not resumed, dropping ${held.length} held result(s)`);
+      }
+    } else if (message.type === "error") {
+      console.error(`[DesktopExecutor] Server dropped a message: ${message.error}`);
+    } else if (message.type === "rejected") {
+      // The server closes the connection right after
+      console.error(`[DesktopExecutor] Registration rejected (${message.code}): ${message.reason}`);
+    } else if (message.type === "execute") {
+      const controller = new AbortController();
+      this.inflight.set(message.id, controller);
+      const timer = message.timeoutMs
+        ? setTimeout(() => controller.abort(), message.timeoutMs)
+        : null;
+
+      try {
+        const result = await this.executeAction(message, controller.signal);
+        // The server has already given up on cancelled commands
+        if (!controller.signal.aborted) {
+          this.sendResult(result);
+        }
+      } finally {
+        if (timer) clearTimeout(timer);
+        this.inflight.delete(message.id);
+      }
     } else if (message.type === "control") {
       if (message.action === "ping") {
         this.send({
@@ -149,13 +284,19 @@ export class DesktopExecutor {
           executorId: this.executorId,
           timestamp: Date.now(),
         });
+      } else if (message.action === "cancel" && message.requestId) {
+        console.log(`[DesktopExecutor] Cancelling ${message.requestId}`);
+        this.inflight.get(message.requestId)?.abort();
       } else if (message.action === "disconnect") {
         this.disconnect();
       }
     }
   }
 
-  private async executeAction(command: ExecuteCommand): Promise<ExecuteResult> {
+  private async executeAction(
+    command: ExecuteCommand,
+    signal: AbortSignal
+  ): Promise<ExecuteResult> {
     const { id, action, params } = command;
 
     try {
@@ -166,10 +307,18 @@ export class DesktopExecutor {
           id,
           success: false,
           error: `Unknown action: ${action}`,
+          code: "NOT_SUPPORTED",
         };
       }
 
-      const result = await handler(params);
+      const result = await handler(params, {
+        signal,
+        progress: (progress, total, message) => {
+          if (signal.aborted) return;
+          const update: ExecuteProgress = { type: "progress", id, progress, total, message };
+          this.send(update);
+        },
+      });
       return {
         type: "result",
         id,
@@ -179,9 +328,21 @@ export class DesktopExecutor {
       return {
         type: "result",
         id,
-        success: false,
-        error: err instanceof Error ? err.message : String(err),
+        ...errorResult(err),
       };
     }
   }
 }
+
+function replaceBuffers(value: unknown, replace: (bytes: Buffer) => unknown): unknown {
+  if (Buffer.isBuffer(value)) {
+    return replace(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceBuffers(item, replace));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceBuffers(item, replace)]));
+  }
+  return value;
+}
@@ -1,4 +1,5 @@
 import type { ActionHandler, ActionResult } from "./index.js";
+import { ActionError, errorResult } from "./errors.js";
 
 // Dynamically import clipboardy (ESM module)
 type ClipboardRead = () => Promise<string>;
@@ -13,7 +14,7 @@ async function loadClipboard(): Promise<void> {
       clipboardReadFn = cb.read;
       clipboardWriteFn = cb.write;
     } catch {
-      throw new Error("clipboardy not available");
+      throw new ActionError("clipboardy not available", "NOT_SUPPORTED");
     }
   }
 }
@@ -23,7 +24,11 @@ export const clipboardHandlers: Record<string, ActionHandler> = {
     const { format = "text" } = params as { format?: "text" | "html" | "image" };
 
     if (format !== "text") {
-      return { success: false, error: `Format "${format}" not supported yet, only "text" is available` };
+      return {
+        success: false,
+        error: `Format "${format}" not supported yet, only "text" is available`,
+        code: "NOT_SUPPORTED",
+      };
     }
 
     try {
@@ -31,7 +36,7 @@ export const clipboardHandlers: Record<string, ActionHandler> = {
       const text = await clipboardReadFn!();
       return { success: true, data: text };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -43,7 +48,7 @@ export const clipboardHandlers: Record<string, ActionHandler> = {
       await clipboardWriteFn!(text);
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 };
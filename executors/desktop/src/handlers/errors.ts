@@ -0,0 +1,34 @@
+import type { ErrorCode } from "@wire-agent/protocol";
+import type { ActionResult } from "./index.js";
+
+// Error carrying a protocol error code
+export class ActionError extends Error {
+  constructor(message: string, readonly code: ErrorCode) {
+    super(message);
+    this.name = "ActionError";
+  }
+}
+
+// Stop a long-running action once the server cancelled it or it timed out
+export function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new ActionError("Action cancelled", "CANCELLED");
+  }
+}
+
+// Convert a thrown error into a failed ActionResult
+export function errorResult(err: unknown): ActionResult {
+  if (err instanceof ActionError) {
+    return { success: false, error: err.message, code: err.code };
+  }
+  if (err instanceof Error && err.name === "AbortError") {
+    return { success: false, error: "Action cancelled", code: "CANCELLED" };
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  const errno = (err as NodeJS.ErrnoException | undefined)?.code;
+  if (errno === "EACCES" || errno === "EPERM") {
+    return { success: false, error: message, code: "PERMISSION_DENIED" };
+  }
+  return { success: false, error: message, code: "EXECUTION_FAILED" };
+}
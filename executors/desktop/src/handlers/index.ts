@@ -4,14 +4,28 @@ import { windowHandlers } from "./window.js";
 import { clipboardHandlers } from "./clipboard.js";
 import { systemHandlers } from "./system.js";
 import { screenshotHandler } from "./screenshot.js";
+import type { ErrorCode } from "@wire-agent/protocol";
+
+export { ActionError, errorResult, throwIfCancelled } from "./errors.js";
 
 export type ActionResult = {
   success: boolean;
   data?: unknown;
   error?: string;
+  code?: ErrorCode;
+};
+
+export type ActionContext = {
+  // Aborted when the server cancels the command or its timeoutMs elapses
+  signal: AbortSignal;
+  // Report progress back to the server; progress must increase with each call
+  progress: (progress: number, total?: number, message?: string) => void;
 };
 
-export type ActionHandler = (params: Record<string, unknown>) => Promise<ActionResult>;
+export type ActionHandler = (
+  params: Record<string, unknown>,
+  context: ActionContext
+) => Promise<ActionResult>;
 
 export class ActionHandlers {
   private handlers: Map<string, ActionHandler> = new Map();
@@ -1,4 +1,5 @@
 import type { ActionHandler, ActionResult } from "./index.js";
+import { ActionError, errorResult } from "./errors.js";
 
 // Dynamically import robotjs
 let robot: typeof import("robotjs") | null = null;
@@ -8,7 +9,7 @@ async function getRobot(): Promise<typeof import("robotjs")> {
     try {
       robot = await import("robotjs");
     } catch {
-      throw new Error("robotjs not available on this platform");
+      throw new ActionError("robotjs not available on this platform", "NOT_SUPPORTED");
     }
   }
   return robot;
@@ -71,7 +72,7 @@ export const keyboardHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -83,7 +84,7 @@ export const keyboardHandlers: Record<string, ActionHandler> = {
       r.typeString(text);
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 };
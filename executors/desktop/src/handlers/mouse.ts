@@ -1,4 +1,5 @@
-import type { ActionHandler, ActionResult } from "./index.js";
+import type { ActionContext, ActionHandler, ActionResult } from "./index.js";
+import { ActionError, errorResult, throwIfCancelled } from "./errors.js";
 
 // Dynamically import robotjs to handle platforms where it's not available
 let robot: typeof import("robotjs") | null = null;
@@ -8,12 +9,19 @@ async function getRobot(): Promise<typeof import("robotjs")> {
     try {
       robot = await import("robotjs");
     } catch {
-      throw new Error("robotjs not available on this platform");
+      throw new ActionError("robotjs not available on this platform", "NOT_SUPPORTED");
     }
   }
   return robot;
 }
 
+// Report roughly every 10% of a multi-step move instead of every step
+function reportStep(progress: ActionContext["progress"], step: number, steps: number): void {
+  if (step === steps || step % Math.ceil(steps / 10) === 0) {
+    progress(step, steps);
+  }
+}
+
 export const mouseHandlers: Record<string, ActionHandler> = {
   mouseClick: async (params): Promise<ActionResult> => {
     const { x, y, button = "left", clicks = 1 } = params as {
@@ -36,11 +44,11 @@ export const mouseHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
-  mouseMove: async (params): Promise<ActionResult> => {
+  mouseMove: async (params, { signal, progress }): Promise<ActionResult> => {
     const { x, y, duration = 0 } = params as {
       x: number;
       y: number;
@@ -57,10 +65,12 @@ export const mouseHandlers: Record<string, ActionHandler> = {
         const dy = (y - currentPos.y) / steps;
 
         for (let i = 1; i <= steps; i++) {
+          throwIfCancelled(signal);
           r.moveMouse(
             Math.round(currentPos.x + dx * i),
             Math.round(currentPos.y + dy * i)
           );
+          reportStep(progress, i, steps);
           await new Promise((resolve) => setTimeout(resolve, duration / steps));
         }
       } else {
@@ -69,11 +79,11 @@ export const mouseHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
-  mouseDrag: async (params): Promise<ActionResult> => {
+  mouseDrag: async (params, { signal, progress }): Promise<ActionResult> => {
     const { startX, startY, endX, endY, duration = 500 } = params as {
       startX: number;
       startY: number;
@@ -96,20 +106,24 @@ export const mouseHandlers: Record<string, ActionHandler> = {
       const dx = (endX - startX) / steps;
       const dy = (endY - startY) / steps;
 
-      for (let i = 1; i <= steps; i++) {
-        r.moveMouse(
-          Math.round(startX + dx * i),
-          Math.round(startY + dy * i)
-        );
-        await new Promise((resolve) => setTimeout(resolve, duration / steps));
+      try {
+        for (let i = 1; i <= steps; i++) {
+          throwIfCancelled(signal);
+          r.moveMouse(
+            Math.round(startX + dx * i),
+            Math.round(startY + dy * i)
+          );
+          reportStep(progress, i, steps);
+          await new Promise((resolve) => setTimeout(resolve, duration / steps));
+        }
+      } finally {
+        // Release mouse button, even when cancelled mid-drag
+        r.mouseToggle("up");
       }
 
-      // Release mouse button
-      r.mouseToggle("up");
-
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -132,7 +146,7 @@ export const mouseHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 };
@@ -1,4 +1,5 @@
 import type { ActionResult } from "./index.js";
+import { ActionError, errorResult } from "./errors.js";
 
 // Dynamically import screenshot-desktop
 type ScreenshotFn = (options?: { screen?: number }) => Promise<Buffer>;
@@ -11,7 +12,7 @@ async function getScreenshot(): Promise<ScreenshotFn> {
       // Handle both ESM default export and CommonJS
       screenshotFn = (mod as { default?: ScreenshotFn }).default ?? (mod as unknown as ScreenshotFn);
     } catch {
-      throw new Error("screenshot-desktop not available");
+      throw new ActionError("screenshot-desktop not available", "NOT_SUPPORTED");
     }
   }
   return screenshotFn;
@@ -22,10 +23,10 @@ export const screenshotHandler = async (params: Record<string, unknown>): Promis
 
   try {
     const capture = await getScreenshot();
+    // Sent as a binary attachment, or base64 to servers without them
     const buffer = await capture({ screen });
-    const base64 = buffer.toString("base64");
-    return { success: true, data: base64 };
+    return { success: true, data: buffer };
   } catch (err) {
-    return { success: false, error: err instanceof Error ? err.message : String(err) };
+    return errorResult(err);
   }
 };
@@ -1,8 +1,9 @@
-import { exec, spawn } from "child_process";
+import { exec, spawn, type ChildProcess } from "child_process";
 import { promisify } from "util";
 import fs from "fs/promises";
 import path from "path";
 import type { ActionHandler, ActionResult } from "./index.js";
+import { ActionError, errorResult } from "./errors.js";
 
 const execAsync = promisify(exec);
 
@@ -14,45 +15,119 @@ async function getNotifier(): Promise<typeof import("node-notifier")> {
     try {
       notifier = await import("node-notifier");
     } catch {
-      throw new Error("node-notifier not available");
+      throw new ActionError("node-notifier not available", "NOT_SUPPORTED");
     }
   }
   return notifier;
 }
 
+interface ShellOutcome {
+  reason: "exited" | "timeout" | "cancelled" | "error";
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+// Kill the shell and everything it started. exec()'s own timeout and signal
+// only kill /bin/sh, leaving `sleep` or the rest of a pipeline running.
+function killTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) return;
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/PID", String(child.pid), "/T", "/F"], { stdio: "ignore" });
+    return;
+  }
+  try {
+    // The shell leads its own process group (detached), so -pid reaches the whole group
+    process.kill(-child.pid, "SIGKILL");
+  } catch {
+    // Already gone
+  }
+}
+
+function runShell(
+  command: string,
+  cwd: string,
+  timeout: number,
+  signal: AbortSignal,
+  onOutput: (chunk: string) => void
+): Promise<ShellOutcome> {
+  return new Promise((resolve) => {
+    let stdout = "";
+    let stderr = "";
+    let stopped: "timeout" | "cancelled" | undefined;
+
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      detached: process.platform !== "win32",
+      stdio: ["ignore", "pipe", "pipe"],
+      windowsHide: true,
+    });
+
+    const stop = (reason: "timeout" | "cancelled") => {
+      stopped ??= reason;
+      killTree(child);
+    };
+    const timer = setTimeout(() => stop("timeout"), timeout);
+    const onAbort = () => stop("cancelled");
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+      onOutput(chunk.toString());
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+      onOutput(chunk.toString());
+    });
+
+    const finish = (outcome: Omit<ShellOutcome, "stdout" | "stderr">) => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      resolve({ ...outcome, stdout, stderr });
+    };
+    child.on("error", (err) => finish({ reason: "error", exitCode: null, error: err.message }));
+    child.on("close", (exitCode) => finish({ reason: stopped ?? "exited", exitCode }));
+  });
+}
+
 export const systemHandlers: Record<string, ActionHandler> = {
-  shellExec: async (params): Promise<ActionResult> => {
+  shellExec: async (params, { signal, progress }): Promise<ActionResult> => {
     const { command, cwd, timeout = 30000 } = params as {
       command: string;
       cwd?: string;
       timeout?: number;
     };
 
-    try {
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: cwd || process.cwd(),
-        timeout,
-      });
+    // Report each output line as it arrives
+    let lines = 0;
+    const outcome = await runShell(command, cwd || process.cwd(), timeout, signal, (chunk) => {
+      for (const line of chunk.split(/\r?\n/)) {
+        if (line.trim()) progress(++lines, undefined, line);
+      }
+    });
 
-      return {
-        success: true,
-        data: {
-          stdout: stdout.trim(),
-          stderr: stderr.trim(),
-        },
-      };
-    } catch (err) {
-      const error = err as Error & { stdout?: string; stderr?: string; code?: number };
-      return {
-        success: false,
-        error: error.message,
-        data: {
-          stdout: error.stdout?.trim() || "",
-          stderr: error.stderr?.trim() || "",
-          code: error.code,
-        },
-      };
+    const data = { stdout: outcome.stdout.trim(), stderr: outcome.stderr.trim() };
+    if (outcome.reason === "exited" && outcome.exitCode === 0) {
+      return { success: true, data };
     }
+
+    const error =
+      outcome.reason === "cancelled"
+        ? "Command cancelled"
+        : outcome.reason === "timeout"
+          ? `Command timed out after ${timeout}ms`
+          : outcome.reason === "error"
+            ? outcome.error
+            : `Command failed with exit code ${outcome.exitCode}: ${command}${data.stderr ? `\n${data.stderr}` : ""}`;
+    return {
+      success: false,
+      error,
+      code: outcome.reason === "cancelled" ? "CANCELLED" : outcome.reason === "timeout" ? "TIMEOUT" : "EXECUTION_FAILED",
+      data: { ...data, code: outcome.exitCode ?? undefined },
+    };
   },
 
   appLaunch: async (params): Promise<ActionResult> => {
@@ -70,7 +145,7 @@ export const systemHandlers: Record<string, ActionHandler> = {
 
       return { success: true, data: { pid: child.pid } };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -81,7 +156,7 @@ export const systemHandlers: Record<string, ActionHandler> = {
     };
 
     if (!processName && !pid) {
-      return { success: false, error: "Must specify processName or pid" };
+      return { success: false, error: "Must specify processName or pid", code: "INVALID_PARAMS" };
     }
 
     try {
@@ -98,7 +173,7 @@ export const systemHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -112,7 +187,7 @@ export const systemHandlers: Record<string, ActionHandler> = {
       const content = await fs.readFile(filePath, { encoding });
       return { success: true, data: content };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -129,7 +204,7 @@ export const systemHandlers: Record<string, ActionHandler> = {
       await fs.writeFile(filePath, content, { encoding });
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -160,7 +235,7 @@ export const systemHandlers: Record<string, ActionHandler> = {
       });
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 };
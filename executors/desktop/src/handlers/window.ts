@@ -2,6 +2,7 @@ import { exec } from "child_process";
 import { promisify } from "util";
 import os from "os";
 import type { ActionHandler, ActionResult } from "./index.js";
+import { errorResult } from "./errors.js";
 
 const execAsync = promisify(exec);
 
@@ -69,13 +70,17 @@ export const windowHandlers: Record<string, ActionHandler> = {
             windows.push({ processName: "unknown", title, pid: parseInt(parts[2]) });
           }
         } catch {
-          return { success: false, error: "wmctrl not available. Install with: sudo apt install wmctrl" };
+          return {
+            success: false,
+            error: "wmctrl not available. Install with: sudo apt install wmctrl",
+            code: "NOT_SUPPORTED",
+          };
         }
       }
 
       return { success: true, data: windows };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -83,7 +88,7 @@ export const windowHandlers: Record<string, ActionHandler> = {
     const { title, processName } = params as { title?: string; processName?: string };
 
     if (!title && !processName) {
-      return { success: false, error: "Must specify title or processName" };
+      return { success: false, error: "Must specify title or processName", code: "INVALID_PARAMS" };
     }
 
     try {
@@ -116,7 +121,7 @@ export const windowHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -165,7 +170,7 @@ export const windowHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -186,7 +191,7 @@ export const windowHandlers: Record<string, ActionHandler> = {
           `osascript -e 'tell application "${app}" to set bounds of front window to {0, 0, ${width}, ${height}}'`
         );
       } else if (platform === "win32") {
-        return { success: false, error: "Window resize not fully implemented for Windows" };
+        return { success: false, error: "Window resize not fully implemented for Windows", code: "NOT_SUPPORTED" };
       } else {
         if (title) {
           await execAsync(`wmctrl -r "${title}" -e 0,-1,-1,${width},${height}`);
@@ -195,7 +200,7 @@ export const windowHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 
@@ -223,7 +228,7 @@ export const windowHandlers: Record<string, ActionHandler> = {
 
       return { success: true };
     } catch (err) {
-      return { success: false, error: err instanceof Error ? err.message : String(err) };
+      return errorResult(err);
     }
   },
 };
@@ -1,14 +1,25 @@
 #!/usr/bin/env node
 
+import { readFileSync } from "fs";
 import { DesktopExecutor } from "./executor.js";
 
-const WS_URL = process.env.WIRE_AGENT_URL || "ws://localhost:3888";
+const WS_URL = process.env.WIRE_AGENT_URL || "ws://127.0.0.1:3888";
+const TOKEN = process.env.WIRE_AGENT_TOKEN;
+const CA_FILE = process.env.WIRE_AGENT_CA;
+// Comma-separated, e.g. "staging,ci"
+const TAGS = (process.env.WIRE_AGENT_TAGS || "").split(",").map((t) => t.trim()).filter(Boolean);
+const MAX_MESSAGE_SIZE = process.env.WIRE_AGENT_MAX_MESSAGE_SIZE;
 
 async function main() {
   console.log("[DesktopExecutor] Starting...");
   console.log(`[DesktopExecutor] Connecting to ${WS_URL}`);
 
-  const executor = new DesktopExecutor(WS_URL);
+  const executor = new DesktopExecutor(WS_URL, {
+    token: TOKEN,
+    ca: CA_FILE ? readFileSync(CA_FILE) : undefined,
+    tags: TAGS,
+    maxMessageSize: MAX_MESSAGE_SIZE ? parseInt(MAX_MESSAGE_SIZE, 10) : undefined,
+  });
   await executor.connect();
 
   // Handle shutdown
@@ -14,15 +14,29 @@ export type SelectorType = "css" | "xpath" | "accessibility" | "text";
 // 桌面端选择器类型
 export type DesktopSelectorType = "window-title" | "window-class" | "process-name" | "coordinates";
 
+// ============================================================
+// 协议版本
+// ============================================================
+// Bumped on every change an older peer would misread. Executors that send
+// no version speak version 1.
+//   2: welcome/rejected, resume tokens
+//   3: binary attachments
+export const PROTOCOL_VERSION = 3;
+
 // ============================================================
 // Executor → Server: 注册
 // ============================================================
 export interface ExecutorRegister {
   type: "register";
+  protocolVersion?: number; // Highest version the executor speaks
   executorId: string;
   platform: Platform;
   capabilities: string[];
   meta: ExecutorMeta;
+  token?: string; // Shared secret, required when the server sets WIRE_AGENT_TOKEN
+  tags?: string[]; // Free-form labels for selectors, e.g. "staging"
+  // From the last ExecutorWelcome; picks up that registration after a reconnect
+  resumeToken?: string;
 }
 
 export interface ExecutorMeta {
@@ -55,8 +69,11 @@ export interface ExecutorMeta {
 export interface ExecuteCommand {
   type: "execute";
   id: string;
+  // Executor the command is for, when one connection registers several
+  executorId?: string;
   action: string;
   params: Record<string, unknown>;
+  timeoutMs?: number; // Server gives up (and sends cancel) after this long
 }
 
 // 具体命令参数
@@ -570,8 +587,126 @@ export interface ExecuteResult {
   success: boolean;
   data?: unknown;
   error?: string;
+  code?: ErrorCode; // Set when success is false
+  // Sent as binary frames before this result; data holds placeholders for them
+  attachments?: AttachmentRef[];
+}
+
+// ============================================================
+// Executor → Server: 二进制附件
+// ============================================================
+// Large binary data such as screenshots is sent as binary WebSocket frames,
+// one chunk per frame, ahead of the result that references it:
+//   uint32 big-endian header length | header JSON (UTF-8) | chunk bytes
+export interface AttachmentChunkHeader {
+  attachmentId: string;
+  index: number; // 0-based position of this chunk
+  sha256: string; // Hex digest of the chunk bytes
+}
+
+export interface AttachmentRef {
+  id: string;
+  size: number; // Total bytes across all chunks
+  chunks: number;
+  mimeType?: string;
+}
+
+// Stands in for the bytes of an attachment in ExecuteResult.data. The server
+// replaces it with the bytes as a base64 string.
+export interface AttachmentPlaceholder {
+  $attachment: string;
+}
+
+export const ATTACHMENT_CHUNK_SIZE = 256 * 1024; // Bytes per frame, before the header
+// Largest WebSocket frame either side accepts unless configured otherwise.
+// The ws default: v1/v2 executors still send screenshots inline as base64
+export const DEFAULT_MAX_MESSAGE_SIZE = 100 * 1024 * 1024;
+
+export function isAttachmentPlaceholder(value: unknown): value is AttachmentPlaceholder {
+  return typeof value === "object" && value !== null && typeof (value as AttachmentPlaceholder).$attachment === "string";
+}
+
+export function encodeChunkFrame(header: AttachmentChunkHeader, bytes: Uint8Array): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(4 + json.length + bytes.length);
+  new DataView(frame.buffer).setUint32(0, json.length);
+  frame.set(json, 4);
+  frame.set(bytes, 4 + json.length);
+  return frame;
+}
+
+// Throws on frames that do not follow the layout above
+export function decodeChunkFrame(frame: Uint8Array): { header: AttachmentChunkHeader; bytes: Uint8Array } {
+  if (frame.length < 4) {
+    throw new Error("Binary frame too short");
+  }
+  const length = new DataView(frame.buffer, frame.byteOffset, frame.byteLength).getUint32(0);
+  if (4 + length > frame.length) {
+    throw new Error("Binary frame header length exceeds the frame");
+  }
+  let header: unknown;
+  try {
+    header = JSON.parse(new TextDecoder().decode(frame.subarray(4, 4 + length)));
+  } catch {
+    throw new Error("Binary frame header is not valid JSON");
+  }
+  const issue = validateSchema(ATTACHMENT_CHUNK_HEADER_SCHEMA, header, "header");
+  if (issue) {
+    throw new Error(`Invalid binary frame: ${issue}`);
+  }
+  return { header: header as AttachmentChunkHeader, bytes: frame.subarray(4 + length) };
+}
+
+// ============================================================
+// Executor → Server: 执行进度
+// ============================================================
+export interface ExecuteProgress {
+  type: "progress";
+  id: string; // id of the ExecuteCommand in progress
+  progress: number; // Must increase with every update
+  total?: number;
+  message?: string;
 }
 
+// ============================================================
+// Executor → Server: 事件
+// ============================================================
+export const EXECUTOR_EVENT_TYPES = [
+  "console", // Console message or uncaught page error
+  "dialog", // alert/confirm/prompt opened
+  "navigation", // Page finished loading a new URL
+  "domMutation", // Change reported by an observeDOM observer
+  "download", // Download started or finished
+] as const;
+
+export type ExecutorEventType = typeof EXECUTOR_EVENT_TYPES[number];
+
+export interface ExecutorEvent {
+  type: "event";
+  executorId: string;
+  event: ExecutorEventType;
+  timestamp: number;
+  data?: Record<string, unknown>;
+}
+
+// ============================================================
+// 错误码
+// ============================================================
+export const ERROR_CODES = [
+  "ELEMENT_NOT_FOUND", // Selector matched nothing
+  "TIMEOUT", // Request or wait exceeded its timeout
+  "NOT_SUPPORTED", // Unknown action/tool or unavailable on this platform
+  "EXECUTOR_NOT_FOUND", // No executor connected or unknown executorId
+  "EXECUTOR_DISCONNECTED", // Executor went away before replying
+  "EXECUTOR_LEASED", // Another session holds a lease on the executor
+  "PERMISSION_DENIED", // Blocked by the OS or by server policy
+  "INVALID_PARAMS", // Missing or malformed parameters
+  "CANCELLED", // Cancelled by the client or server
+  "EXECUTION_FAILED", // Any other failure
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
 // ============================================================
 // Executor → Server: 状态更新
 // ============================================================
@@ -586,7 +721,51 @@ export interface StateUpdate {
 // ============================================================
 export interface ControlCommand {
   type: "control";
-  action: "ping" | "disconnect";
+  action: "ping" | "disconnect" | "cancel";
+  requestId?: string; // cancel: id of the ExecuteCommand to abort
+}
+
+// ============================================================
+// Server → Executor: 注册确认 / 拒绝
+// ============================================================
+export interface ExecutorWelcome {
+  type: "welcome";
+  protocolVersion: number; // Version both sides speak from now on
+  executorId: string;
+  // Send with the next register to resume this registration
+  resumeToken: string;
+  // True when pending requests, defaults and leases were kept; results held
+  // back while disconnected can be sent now
+  resumed: boolean;
+  heartbeatIntervalMs: number; // How often the server pings
+  limits: ServerLimits;
+}
+
+export interface ServerLimits {
+  requestTimeoutMs: number; // Command timeout when the caller sets none
+  heartbeatTimeoutMs: number; // Silence after which the executor counts as unresponsive
+  resumeGraceMs: number; // How long a dropped registration can be resumed
+  eventBufferSize: number; // Events kept per executor
+  maxMessageBytes: number; // Largest frame the server accepts, text or binary
+}
+
+export interface ExecutorRejected {
+  type: "rejected";
+  code: "UNAUTHORIZED" | "UNSUPPORTED_VERSION" | "INVALID_MESSAGE";
+  reason: string;
+  // Protocol versions the server accepts
+  minProtocolVersion: number;
+  maxProtocolVersion: number;
+}
+
+// ============================================================
+// Server → Executor: 无效消息
+// ============================================================
+// Reply to a message that failed validation; the message was dropped
+export interface ProtocolError {
+  type: "error";
+  error: string; // Names the offending field
+  requestId?: string; // id of the dropped result or progress, if it had one
 }
 
 // ============================================================
@@ -598,18 +777,34 @@ export interface PongMessage {
   timestamp: number;
 }
 
+// ============================================================
+// WebSocket 关闭码
+// ============================================================
+export const CLOSE_CODES = {
+  INVALID_MESSAGE: 4000, // First message is not a valid register
+  UNAUTHORIZED: 4001, // Missing or wrong token, or a message before register
+  ORIGIN_NOT_ALLOWED: 4003, // Origin header not in the allowlist
+  REGISTRATION_TIMEOUT: 4008, // No register message in time
+  UNSUPPORTED_VERSION: 4026, // protocolVersion outside what the server speaks
+} as const;
+
 // ============================================================
 // 消息联合类型
 // ============================================================
 export type ClientMessage =
   | ExecutorRegister
   | ExecuteResult
+  | ExecuteProgress
+  | ExecutorEvent
   | StateUpdate
   | PongMessage;
 
 export type ServerMessage =
   | ExecuteCommand
-  | ControlCommand;
+  | ControlCommand
+  | ExecutorWelcome
+  | ExecutorRejected
+  | ProtocolError;
 
 // ============================================================
 // Executor 信息（用于列表展示）
@@ -617,10 +812,48 @@ export type ServerMessage =
 export interface ExecutorInfo {
   executorId: string;
   platform: Platform;
+  protocolVersion: number;
   capabilities: string[];
   meta: ExecutorMeta;
+  tags?: string[];
   connectedAt: number;
-  lastActiveAt: number;
+  lastActiveAt: number; // Last message received from the executor
+  lease?: ExecutorLease;
+  // Load as seen by the server, used to balance pools
+  pendingRequests: number;
+  latencyMs?: number; // Moving average of command round trips
+  health: ExecutorHealth;
+  pingLatencyMs?: number; // Round trip of the last answered ping
+  pools: string[];
+  // Set while the connection is down and the executor may still resume
+  disconnectedAt?: number;
+}
+
+// healthy:      answered recently
+// degraded:     missed a ping, or answers pings slowly; still given commands
+// unresponsive: silent for too long; commands to it fail right away
+// evicted:      silent for so long that its socket is closed and its pending requests fail
+export type ExecutorHealth = "healthy" | "degraded" | "unresponsive" | "evicted";
+
+// Named group of executors that commands can target as a whole
+export interface PoolInfo {
+  name: string;
+  selector: string; // Membership, in executor selector syntax
+  sticky: boolean; // Keep each session on the member it was first given
+  members: string[];
+  healthy: number; // Members that can take commands, healthy or degraded
+  pendingRequests: number;
+}
+
+// Exclusive use of an executor by one MCP session
+export interface ExecutorLease {
+  sessionId: string;
+  // MCP client name of the holder, when known
+  client?: string;
+  acquiredAt: number;
+  // Every command from the holder pushes expiresAt to now + ttlMs
+  ttlMs: number;
+  expiresAt: number;
 }
 
 // ============================================================
@@ -795,3 +1028,265 @@ export const DESKTOP_CAPABILITIES = [
 
 export type BrowserCapability = typeof BROWSER_CAPABILITIES[number];
 export type DesktopCapability = typeof DESKTOP_CAPABILITIES[number];
+
+// ============================================================
+// 消息校验
+// ============================================================
+// The subset of JSON Schema used by protocol messages and MCP tool inputs
+export type SchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface Schema {
+  type?: SchemaType | SchemaType[];
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  items?: Schema;
+  enum?: readonly unknown[];
+  oneOf?: readonly Schema[];
+  minimum?: number; // Inclusive bounds for numbers
+  maximum?: number;
+  description?: string;
+  default?: unknown;
+}
+
+const TYPE_NAMES: Record<SchemaType, string> = {
+  string: "a string",
+  number: "a number",
+  integer: "an integer",
+  boolean: "a boolean",
+  object: "an object",
+  array: "an array",
+  null: "null",
+};
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value as SchemaType;
+}
+
+function hasType(value: unknown, type: SchemaType): boolean {
+  if (type === "integer") return Number.isInteger(value);
+  if (type === "number") return typeof value === "number" && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+function typeNames(schema: Schema): string {
+  const types = schema.type === undefined ? [] : ([] as SchemaType[]).concat(schema.type);
+  return types.map((type) => TYPE_NAMES[type]).join(" or ") || "a valid value";
+}
+
+// The first way value breaks schema, naming the field at fault, or null
+export function validateSchema(schema: Schema, value: unknown, path = ""): string | null {
+  const field = path || "value";
+
+  if (schema.oneOf && !schema.oneOf.some((option) => validateSchema(option, value, path) === null)) {
+    return `${field} must be ${schema.oneOf.map(typeNames).join(" or ")}`;
+  }
+  if (schema.type !== undefined && ![schema.type].flat().some((type) => hasType(value, type))) {
+    return `${field} must be ${typeNames(schema)}, got ${typeOf(value)}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${field} must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`;
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) return `${field} must be at least ${schema.minimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) return `${field} must be at most ${schema.maximum}`;
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) return `${at(key)} is required`;
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (object[key] === undefined) continue;
+      const issue = validateSchema(property, object[key], at(key));
+      if (issue) return issue;
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const issue = validateSchema(schema.items, value[i], `${field}[${i}]`);
+      if (issue) return issue;
+    }
+  }
+  return null;
+}
+
+const stringArraySchema: Schema = { type: "array", items: { type: "string" } };
+const objectSchema: Schema = { type: "object" };
+
+export const CLIENT_MESSAGE_SCHEMAS: Record<ClientMessage["type"], Schema> = {
+  register: {
+    type: "object",
+    required: ["executorId", "platform", "capabilities", "meta"],
+    properties: {
+      protocolVersion: { type: "integer" },
+      executorId: { type: "string" },
+      platform: { type: "string", enum: ["browser", "mobile", "desktop"] },
+      capabilities: stringArraySchema,
+      meta: objectSchema,
+      token: { type: "string" },
+      tags: stringArraySchema,
+      resumeToken: { type: "string" },
+    },
+  },
+  result: {
+    type: "object",
+    required: ["id", "success"],
+    properties: {
+      id: { type: "string" },
+      success: { type: "boolean" },
+      error: { type: "string" },
+      code: { type: "string", enum: ERROR_CODES },
+      attachments: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["id", "size", "chunks"],
+          properties: {
+            id: { type: "string" },
+            size: { type: "integer" },
+            chunks: { type: "integer" },
+            mimeType: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  progress: {
+    type: "object",
+    required: ["id", "progress"],
+    properties: {
+      id: { type: "string" },
+      progress: { type: "number" },
+      total: { type: "number" },
+      message: { type: "string" },
+    },
+  },
+  event: {
+    type: "object",
+    required: ["executorId", "event", "timestamp"],
+    properties: {
+      executorId: { type: "string" },
+      event: { type: "string", enum: EXECUTOR_EVENT_TYPES },
+      timestamp: { type: "number" },
+      data: objectSchema,
+    },
+  },
+  state: {
+    type: "object",
+    required: ["executorId", "meta"],
+    properties: {
+      executorId: { type: "string" },
+      meta: objectSchema,
+    },
+  },
+  pong: {
+    type: "object",
+    required: ["executorId", "timestamp"],
+    properties: {
+      executorId: { type: "string" },
+      timestamp: { type: "number" },
+    },
+  },
+};
+
+export const SERVER_MESSAGE_SCHEMAS: Record<ServerMessage["type"], Schema> = {
+  execute: {
+    type: "object",
+    required: ["id", "action", "params"],
+    properties: {
+      id: { type: "string" },
+      executorId: { type: "string" },
+      action: { type: "string" },
+      params: objectSchema,
+      timeoutMs: { type: "number" },
+    },
+  },
+  control: {
+    type: "object",
+    required: ["action"],
+    properties: {
+      action: { type: "string", enum: ["ping", "disconnect", "cancel"] },
+      requestId: { type: "string" },
+    },
+  },
+  welcome: {
+    type: "object",
+    required: ["protocolVersion", "executorId", "resumeToken", "resumed", "heartbeatIntervalMs", "limits"],
+    properties: {
+      protocolVersion: { type: "integer" },
+      executorId: { type: "string" },
+      resumeToken: { type: "string" },
+      resumed: { type: "boolean" },
+      heartbeatIntervalMs: { type: "number" },
+      limits: {
+        type: "object",
+        required: ["requestTimeoutMs", "heartbeatTimeoutMs", "resumeGraceMs", "eventBufferSize", "maxMessageBytes"],
+        properties: {
+          requestTimeoutMs: { type: "number" },
+          heartbeatTimeoutMs: { type: "number" },
+          resumeGraceMs: { type: "number" },
+          eventBufferSize: { type: "integer" },
+          maxMessageBytes: { type: "integer" },
+        },
+      },
+    },
+  },
+  rejected: {
+    type: "object",
+    required: ["code", "reason", "minProtocolVersion", "maxProtocolVersion"],
+    properties: {
+      code: { type: "string", enum: ["UNAUTHORIZED", "UNSUPPORTED_VERSION", "INVALID_MESSAGE"] },
+      reason: { type: "string" },
+      minProtocolVersion: { type: "integer" },
+      maxProtocolVersion: { type: "integer" },
+    },
+  },
+  error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: { type: "string" },
+      requestId: { type: "string" },
+    },
+  },
+};
+
+const ATTACHMENT_CHUNK_HEADER_SCHEMA: Schema = {
+  type: "object",
+  required: ["attachmentId", "index", "sha256"],
+  properties: {
+    attachmentId: { type: "string" },
+    index: { type: "integer" },
+    sha256: { type: "string" },
+  },
+};
+
+export type MessageValidation<T> = { ok: true; message: T } | { ok: false; error: string };
+
+function validateMessage<T>(schemas: Record<string, Schema>, value: unknown): MessageValidation<T> {
+  const type = (value as { type?: unknown } | null)?.type;
+  if (typeOf(value) !== "object" || typeof type !== "string") {
+    return { ok: false, error: "Message must be an object with a string type" };
+  }
+  const schema = Object.prototype.hasOwnProperty.call(schemas, type) ? schemas[type] : undefined;
+  if (!schema) {
+    return { ok: false, error: `Unknown message type: ${type}` };
+  }
+  const issue = validateSchema(schema, value);
+  return issue ? { ok: false, error: `Invalid ${type} message: ${issue}` } : { ok: true, message: value as T };
+}
+
+// Parsed JSON from an executor, checked before the server acts on it
+export function validateClientMessage(value: unknown): MessageValidation<ClientMessage> {
+  return validateMessage(CLIENT_MESSAGE_SCHEMAS, value);
+}
+
+// Parsed JSON from the server, checked before an executor acts on it
+export function validateServerMessage(value: unknown): MessageValidation<ServerMessage> {
+  return validateMessage(SERVER_MESSAGE_SCHEMAS, value);
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+
+vi.mock("../executor/manager", () => ({
+  EXECUTOR_EVENT: "executorEvent",
+  MAX_COMMAND_TIMEOUT: 24 * 60 * 60 * 1000,
+  executorManager: {
+    list: vi.fn(() => [{ executorId: "desktop", platform: "desktop", health: "healthy" }]),
+    poolStatus: vi.fn(() => []),
+    resolve: vi.fn((selector: string) =>
+      selector === "desktop" || selector === "platform=desktop"
+        ? { ok: true, executorId: "desktop" }
+        : { ok: false, code: "EXECUTOR_NOT_FOUND", error: `Executor not found: ${selector}` }
+    ),
+    execute: vi.fn(),
+    setDefault: vi.fn(() => true),
+    getDefault: vi.fn(() => "desktop"),
+    on: vi.fn(),
+    off: vi.fn(),
+  },
+}));
+
+vi.mock("../approval/queue", () => ({
+  approvalQueue: { enqueue: vi.fn(async () => ({ approved: false, by: "cli", reason: "Not now" })) },
+}));
+
+import { executorManager } from "../executor/manager";
+import { approvalQueue } from "../approval/queue";
+import { handleExecutorRoute } from "./http";
+
+describe("executor routes", () => {
+  let server: http.Server;
+  let base: string;
+
+  const post = (path: string, body?: unknown) =>
+    fetch(`${base}${path}`, { method: "POST", body: body === undefined ? undefined : JSON.stringify(body) });
+
+  beforeAll(async () => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    server = http.createServer(async (req, res) => {
+      if (!(await handleExecutorRoute(req, res))) {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list executors and pools", async () => {
+    const res = await fetch(`${base}/executors`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      executors: [{ executorId: "desktop", platform: "desktop", health: "healthy" }],
+      pools: [],
+      defaultExecutorId: "desktop",
+    });
+  });
+
+  it("should run actions on the executor the id resolves to", async () => {
+    vi.mocked(executorManager.execute).mockResolvedValueOnce({ type: "result", id: "req_1", success: true, data: "ok" });
+
+    const res = await post("/executors/platform%3Ddesktop/execute", { action: "mouseClick", params: { x: 1, y: 2 } });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: "req_1", success: true, data: "ok" });
+    expect(executorManager.execute).toHaveBeenCalledWith(
+      "mouseClick",
+      expect.objectContaining({ x: 1, y: 2 }),
+      "desktop",
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it("should not pass routing args on as params", async () => {
+    vi.mocked(executorManager.execute).mockResolvedValueOnce({ type: "result", id: "req_1", success: true });
+
+    await post("/executors/desktop/execute", { action: "mouseClick", params: { x: 1, y: 2, executorId: "laptop" } });
+
+    expect(vi.mocked(executorManager.execute).mock.calls[0][1]).not.toHaveProperty("executorId");
+  });
+
+  it("should map error codes to HTTP statuses", async () => {
+    vi.mocked(executorManager.execute).mockResolvedValueOnce({
+      type: "result",
+      id: "req_1",
+      success: false,
+      code: "TIMEOUT",
+      error: "Request timeout after 30000ms",
+    });
+
+    const timedOut = await post("/executors/desktop/execute", { action: "mouseClick", params: { x: 1, y: 2 } });
+    const missing = await post("/executors/laptop/execute", { action: "mouseClick", params: { x: 1, y: 2 } });
+    const unknown = await post("/executors/desktop/execute", { action: "teleport" });
+
+    expect(timedOut.status).toBe(504);
+    expect(await timedOut.json()).toMatchObject({ success: false, code: "TIMEOUT" });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ code: "EXECUTOR_NOT_FOUND", error: "Executor not found: laptop" });
+    expect(unknown.status).toBe(501);
+  });
+
+  it("should check params against the action's tool schema", async () => {
+    const res = await post("/executors/desktop/execute", { action: "mouseClick", params: { x: "1", y: 2 } });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "INVALID_PARAMS",
+      error: "Invalid params for mouseClick: params.x must be a number, got string",
+    });
+    expect(executorManager.execute).not.toHaveBeenCalled();
+  });
+
+  it("should not get around approval", async () => {
+    const res = await post("/executors/desktop/execute", { action: "shellExec", params: { command: "rm -rf /tmp/x" } });
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe("shellExec on desktop was not approved: Not now");
+    expect(approvalQueue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ tool: "desktop_shell_exec", action: "shellExec", executorId: "desktop" }),
+      expect.any(AbortSignal)
+    );
+    expect(executorManager.execute).not.toHaveBeenCalled();
+  });
+
+  it("should return screenshots as PNG", async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    vi.mocked(executorManager.execute).mockResolvedValueOnce({
+      type: "result",
+      id: "req_1",
+      success: true,
+      data: png.toString("base64"),
+    });
+
+    const res = await fetch(`${base}/executors/desktop/screenshot?fullPage=true`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(png);
+    expect(executorManager.execute).toHaveBeenCalledWith("screenshot", { fullPage: true }, "desktop", expect.anything());
+  });
+
+  it("should set the default executor", async () => {
+    const res = await post("/executors/platform%3Ddesktop/default");
+
+    expect(await res.json()).toEqual({ executorId: "desktop" });
+    expect(executorManager.setDefault).toHaveBeenCalledWith("desktop");
+  });
+
+  it("should list the MCP tool catalogue", async () => {
+    const tools = await (await fetch(`${base}/tools`)).json();
+
+    expect(tools).toContainEqual(expect.objectContaining({ name: "desktop_shell_exec", inputSchema: expect.any(Object) }));
+  });
+
+  it("should stream logs and executor events", async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${base}/tail?level=info`, { signal: controller.signal });
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    const [, onEvent] = vi.mocked(executorManager.on).mock.calls[0] as [string, (event: unknown) => void];
+
+    await post("/executors/desktop/default");
+    onEvent({ type: "event", executorId: "desktop", event: "download", timestamp: 1, seq: 7 });
+
+    const reader = res.body!.getReader();
+    let text = "";
+    while (!text.includes("event: executor")) {
+      text += new TextDecoder().decode((await reader.read()).value);
+    }
+    controller.abort();
+    expect(text).toContain("event: log\ndata: ");
+    expect(text).toContain("Default executor set to desktop over HTTP");
+    expect(text).toContain('event: executor\ndata: {"type":"event","executorId":"desktop","event":"download"');
+  });
+
+  it("should reject unknown log levels", async () => {
+    const res = await fetch(`${base}/tail?level=loud`);
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should serve the OpenAPI document", async () => {
+    const res = await fetch(`${base}/openapi.json`);
+
+    expect(Object.keys((await res.json()).paths)).toEqual([
+      "/executors",
+      "/executors/{id}/execute",
+      "/executors/{id}/default",
+      "/executors/{id}/screenshot",
+      "/tools",
+      "/tail",
+    ]);
+  });
+});
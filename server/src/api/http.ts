@@ -0,0 +1,214 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { ErrorCode, ExecuteResult } from "@wire-agent/protocol";
+import { executorManager, MAX_COMMAND_TIMEOUT } from "../executor/manager";
+import { approvalQueue } from "../approval/queue";
+import { toolRegistry } from "../mcp/tools";
+import { resolveParams, validateArgs } from "../mcp/registry";
+import { readJson, sendJson } from "../utils/http";
+import { apiLogger as log } from "../utils/logger";
+import { openApiDocument } from "./openapi";
+import { handleTail } from "./tail";
+
+// ============================================================
+// Executor routes (REST API for scripts; see openapi.ts)
+//   GET  /executors                     executors, pools and the default executor
+//   POST /executors/{id}/execute        body: { action, params?, timeoutMs? }
+//   POST /executors/{id}/default        make it the default executor
+//   GET  /executors/{id}/screenshot     PNG; query: selector?, fullPage?
+//   GET  /tools                         the MCP tool catalogue
+//   GET  /tail                          logs and executor events, see tail.ts
+//   GET  /openapi.json                  this API as OpenAPI 3.1
+// ============================================================
+
+const EXECUTOR_ROUTE = /^\/executors\/([^/]+)\/(execute|default|screenshot)$/;
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  ELEMENT_NOT_FOUND: 422,
+  TIMEOUT: 504,
+  NOT_SUPPORTED: 501,
+  EXECUTOR_NOT_FOUND: 404,
+  EXECUTOR_DISCONNECTED: 503,
+  EXECUTOR_LEASED: 409,
+  PERMISSION_DENIED: 403,
+  INVALID_PARAMS: 400,
+  CANCELLED: 499, // The client went away
+  EXECUTION_FAILED: 502,
+};
+
+function httpStatus(code: ErrorCode | undefined): number {
+  return code ? HTTP_STATUS[code] : 500;
+}
+
+function sendError(res: ServerResponse, code: ErrorCode, error: string): void {
+  sendJson(res, httpStatus(code), { code, error });
+}
+
+function sendResult(res: ServerResponse, { type: _type, ...result }: ExecuteResult): void {
+  sendJson(res, result.success ? 200 : httpStatus(result.code), result);
+}
+
+function failure(code: ErrorCode, error: string): ExecuteResult {
+  return { type: "result", id: "", success: false, code, error };
+}
+
+// Aborted when the client disconnects before the response is sent
+function abortOnClose(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Checks params against the schema of the tool for the action, and asks for
+// approval when a tool sending this action needs it, as executor_fanout does
+async function execute(
+  executorId: string,
+  action: string,
+  given: Record<string, unknown>,
+  timeoutMs: number | undefined,
+  signal: AbortSignal
+): Promise<ExecuteResult> {
+  const tools = toolRegistry.actionTools(action);
+  if (tools.length === 0) {
+    return failure("NOT_SUPPORTED", `Unknown action: ${action}`);
+  }
+  const [tool] = tools;
+  const invalid = validateArgs(tool, given, "params");
+  if (invalid) {
+    return failure("INVALID_PARAMS", `Invalid params for ${action}: ${invalid}`);
+  }
+  // Same params the action's MCP tool would send, without its routing args
+  const { resolved, params } = resolveParams(tool, given);
+
+  const target = executorManager.resolve(executorId);
+  if (!target.ok) {
+    return failure(target.code, target.error);
+  }
+
+  const gated = tools.find((t) => t.requiresApproval);
+  if (gated) {
+    const decision = await approvalQueue.enqueue(
+      { tool: gated.name, action, params, executorId: target.executorId },
+      signal
+    );
+    log.info(`${gated.name} over HTTP ${decision.approved ? "approved" : "denied"} by ${decision.by}`, {
+      executorId: target.executorId,
+      reason: decision.reason,
+    });
+    if (!decision.approved) {
+      return failure("PERMISSION_DENIED", `${action} on ${executorId} was not approved: ${decision.reason ?? "denied"}`);
+    }
+  }
+
+  return executorManager.execute(action, params, target.executorId, {
+    timeoutMs: timeoutMs ?? tool.timeoutMs?.(resolved),
+    signal,
+  });
+}
+
+async function handleExecute(req: IncomingMessage, res: ServerResponse, executorId: string): Promise<void> {
+  let body: Record<string, unknown>;
+  try {
+    body = await readJson(req);
+  } catch (err) {
+    sendError(res, "INVALID_PARAMS", err instanceof Error ? err.message : String(err));
+    return;
+  }
+
+  const { action, params = {}, timeoutMs } = body;
+  if (typeof action !== "string") {
+    sendError(res, "INVALID_PARAMS", "action must be a string");
+    return;
+  }
+  if (typeof params !== "object" || params === null || Array.isArray(params)) {
+    sendError(res, "INVALID_PARAMS", "params must be an object");
+    return;
+  }
+  const validTimeout = typeof timeoutMs === "number" && Number.isInteger(timeoutMs) && timeoutMs > 0 && timeoutMs <= MAX_COMMAND_TIMEOUT;
+  if (timeoutMs !== undefined && !validTimeout) {
+    sendError(res, "INVALID_PARAMS", `timeoutMs must be an integer from 1 to ${MAX_COMMAND_TIMEOUT}`);
+    return;
+  }
+
+  const signal = abortOnClose(res);
+  sendResult(res, await execute(executorId, action, params as Record<string, unknown>, timeoutMs, signal));
+}
+
+async function handleScreenshot(res: ServerResponse, executorId: string, query: URLSearchParams): Promise<void> {
+  const params: Record<string, unknown> = {};
+  const selector = query.get("selector");
+  if (selector !== null) params.selector = selector;
+  if (query.has("fullPage")) params.fullPage = query.get("fullPage") === "true";
+
+  const result = await execute(executorId, "screenshot", params, undefined, abortOnClose(res));
+  if (!result.success) {
+    sendResult(res, result);
+    return;
+  }
+  if (typeof result.data !== "string") {
+    sendError(res, "EXECUTION_FAILED", "Executor did not return an image");
+    return;
+  }
+  const image = Buffer.from(result.data, "base64");
+  res.writeHead(200, { "Content-Type": "image/png", "Content-Length": image.length });
+  res.end(image);
+}
+
+// Returns false when the request is not an executor route
+export async function handleExecutorRoute(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const { pathname, searchParams } = new URL(req.url ?? "/", "http://localhost");
+
+  if (pathname === "/executors" && req.method === "GET") {
+    sendJson(res, 200, {
+      executors: executorManager.list(),
+      pools: executorManager.poolStatus(),
+      defaultExecutorId: executorManager.getDefault(),
+    });
+    return true;
+  }
+  if (pathname === "/tools" && req.method === "GET") {
+    sendJson(res, 200, toolRegistry.list());
+    return true;
+  }
+  if (pathname === "/tail" && req.method === "GET") {
+    handleTail(res, searchParams);
+    return true;
+  }
+  if (pathname === "/openapi.json" && req.method === "GET") {
+    sendJson(res, 200, openApiDocument);
+    return true;
+  }
+
+  const match = EXECUTOR_ROUTE.exec(pathname);
+  if (!match) return false;
+  const [, encodedId, route] = match;
+  let executorId: string;
+  try {
+    executorId = decodeURIComponent(encodedId);
+  } catch {
+    sendError(res, "INVALID_PARAMS", `Malformed executor id: ${encodedId}`);
+    return true;
+  }
+
+  if (route === "execute" && req.method === "POST") {
+    await handleExecute(req, res, executorId);
+    return true;
+  }
+  if (route === "screenshot" && req.method === "GET") {
+    await handleScreenshot(res, executorId, searchParams);
+    return true;
+  }
+  if (route === "default" && req.method === "POST") {
+    const target = executorManager.resolve(executorId);
+    if (!target.ok) {
+      sendError(res, target.code, target.error);
+      return true;
+    }
+    executorManager.setDefault(target.executorId);
+    log.info(`Default executor set to ${target.executorId} over HTTP`);
+    sendJson(res, 200, { executorId: target.executorId });
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,214 @@
+import { ERROR_CODES } from "@wire-agent/protocol";
+
+// ============================================================
+// OpenAPI 3.1 description of the executor routes in http.ts
+// ============================================================
+
+const executorIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "Executor ID, or a selector matching exactly one executor (URL-encoded), e.g. platform%3Ddesktop",
+  schema: { type: "string" },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const resultResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Result" } } },
+});
+
+// Failures carry the error code; the HTTP status follows from it
+const failureResponses = {
+  "400": resultResponse("INVALID_PARAMS"),
+  "401": errorResponse("Missing or wrong bearer token"),
+  "403": resultResponse("PERMISSION_DENIED by policy or approval"),
+  "404": resultResponse("EXECUTOR_NOT_FOUND"),
+  "409": resultResponse("EXECUTOR_LEASED by an MCP session"),
+  "422": resultResponse("ELEMENT_NOT_FOUND"),
+  "501": resultResponse("NOT_SUPPORTED"),
+  "502": resultResponse("EXECUTION_FAILED"),
+  "503": resultResponse("EXECUTOR_DISCONNECTED"),
+  "504": resultResponse("TIMEOUT"),
+};
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "Wire Agent executor API",
+    version: "1.0.0",
+    description: "Drive connected executors without an MCP client. Served next to the executor WebSocket.",
+  },
+  security: [{ bearer: [] }],
+  paths: {
+    "/executors": {
+      get: {
+        summary: "List executors and pools",
+        operationId: "listExecutors",
+        responses: {
+          "200": {
+            description: "Connected executors and the status of each pool",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["executors", "pools", "defaultExecutorId"],
+                  properties: {
+                    executors: { type: "array", items: { $ref: "#/components/schemas/Executor" } },
+                    pools: { type: "array", items: { type: "object" } },
+                    defaultExecutorId: { type: ["string", "null"], description: "Executor MCP sessions use by default" },
+                  },
+                },
+              },
+            },
+          },
+          "401": errorResponse("Missing or wrong bearer token"),
+        },
+      },
+    },
+    "/executors/{id}/execute": {
+      post: {
+        summary: "Run a protocol action on an executor",
+        operationId: "execute",
+        parameters: [executorIdParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["action"],
+                properties: {
+                  action: { type: "string", description: "Protocol action, e.g. navigate, screenshot, shellExec" },
+                  params: { type: "object", description: "Action params, the same as the MCP tool for that action takes" },
+                  timeoutMs: { type: "number", description: "Command timeout (default: 30000)" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": resultResponse("The action succeeded"),
+          ...failureResponses,
+        },
+      },
+    },
+    "/executors/{id}/default": {
+      post: {
+        summary: "Make an executor the default for MCP sessions that have not picked one",
+        operationId: "setDefault",
+        parameters: [executorIdParameter],
+        responses: {
+          "200": {
+            description: "The new default",
+            content: {
+              "application/json": {
+                schema: { type: "object", required: ["executorId"], properties: { executorId: { type: "string" } } },
+              },
+            },
+          },
+          "400": errorResponse("INVALID_PARAMS"),
+          "401": errorResponse("Missing or wrong bearer token"),
+          "404": errorResponse("EXECUTOR_NOT_FOUND"),
+        },
+      },
+    },
+    "/executors/{id}/screenshot": {
+      get: {
+        summary: "Take a screenshot",
+        operationId: "screenshot",
+        parameters: [
+          executorIdParameter,
+          { name: "selector", in: "query", description: "Element to capture (browsers)", schema: { type: "string" } },
+          { name: "fullPage", in: "query", description: "Capture the full scrollable page (browsers)", schema: { type: "boolean" } },
+        ],
+        responses: {
+          "200": { description: "The screenshot", content: { "image/png": { schema: { type: "string", format: "binary" } } } },
+          ...failureResponses,
+        },
+      },
+    },
+    "/tools": {
+      get: {
+        summary: "List the MCP tool catalogue",
+        operationId: "listTools",
+        responses: {
+          "200": {
+            description: "Tools as MCP tools/list returns them",
+            content: { "application/json": { schema: { type: "array", items: { type: "object" } } } },
+          },
+          "401": errorResponse("Missing or wrong bearer token"),
+        },
+      },
+    },
+    "/tail": {
+      get: {
+        summary: "Stream server logs and executor events",
+        operationId: "tail",
+        parameters: [
+          {
+            name: "level",
+            in: "query",
+            description: "Lowest log level to send (default: info)",
+            schema: { type: "string", enum: ["debug", "info", "warn", "error"] },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Server-sent events: `log` with a log record, `executor` with an executor event",
+            content: { "text/event-stream": { schema: { type: "string" } } },
+          },
+          "400": errorResponse("INVALID_PARAMS"),
+          "401": errorResponse("Missing or wrong bearer token"),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearer: { type: "http", scheme: "bearer", description: "WIRE_AGENT_TOKEN, when the server sets one" },
+    },
+    schemas: {
+      Result: {
+        type: "object",
+        required: ["id", "success"],
+        properties: {
+          id: { type: "string", description: "Request id; empty when the command was never sent" },
+          success: { type: "boolean" },
+          data: { description: "Action output" },
+          code: { type: "string", enum: [...ERROR_CODES] },
+          error: { type: "string" },
+        },
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          code: { type: "string", enum: [...ERROR_CODES] },
+          error: { type: "string" },
+        },
+      },
+      Executor: {
+        type: "object",
+        required: ["executorId", "platform", "capabilities", "health"],
+        properties: {
+          executorId: { type: "string" },
+          platform: { type: "string" },
+          protocolVersion: { type: "integer" },
+          capabilities: { type: "array", items: { type: "string" } },
+          meta: { type: "object" },
+          tags: { type: "array", items: { type: "string" } },
+          pendingRequests: { type: "integer" },
+          latencyMs: { type: "number" },
+          health: { type: "string", enum: ["healthy", "degraded", "unresponsive", "evicted"] },
+          pingLatencyMs: { type: "number" },
+          pools: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+};
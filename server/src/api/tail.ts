@@ -0,0 +1,56 @@
+import type { ServerResponse } from "http";
+import { executorManager, EXECUTOR_EVENT, type BufferedEvent } from "../executor/manager";
+import { formatJson, logger, type LogLevel, type LogRecord, type LogSink } from "../utils/logger";
+import { sendJson } from "../utils/http";
+
+// ============================================================
+// GET /tail?level=info: server logs and executor events as server-sent events
+//   event: log       data: LogRecord
+//   event: executor  data: BufferedEvent
+// ============================================================
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const KEEPALIVE_INTERVAL = 15000; // 15 seconds
+
+// Logs at or above the requested level, whatever LOG_LEVEL says
+class TailSink implements LogSink {
+  constructor(private readonly res: ServerResponse, private readonly threshold: LogLevel) {}
+
+  level(): LogLevel {
+    return this.threshold;
+  }
+
+  write(record: LogRecord): void {
+    this.res.write(`event: log\ndata: ${formatJson(record)}\n\n`);
+  }
+}
+
+export function handleTail(res: ServerResponse, query: URLSearchParams): void {
+  const level = query.get("level") ?? "info";
+  if (!LEVELS.includes(level as LogLevel)) {
+    sendJson(res, 400, { code: "INVALID_PARAMS", error: `level must be one of ${LEVELS.join(", ")}` });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.write(": tailing\n\n");
+
+  const sink = new TailSink(res, level as LogLevel);
+  const onEvent = (event: BufferedEvent) => {
+    res.write(`event: executor\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  // Proxies and idle timeouts close silent connections
+  const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_INTERVAL);
+
+  logger.addSink(sink);
+  executorManager.on(EXECUTOR_EVENT, onEvent);
+  res.on("close", () => {
+    clearInterval(keepalive);
+    logger.removeSink(sink);
+    executorManager.off(EXECUTOR_EVENT, onEvent);
+  });
+}
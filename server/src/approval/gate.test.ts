@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+
+vi.mock("./queue", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./queue")>()),
+  approvalQueue: { on: vi.fn(), enqueue: vi.fn(async () => ({ approved: true, by: "cli" })) },
+}));
+
+import { approvalQueue } from "./queue";
+import { requestApproval } from "./gate";
+
+const request = { tool: "desktop_shell_exec", action: "shellExec", params: { command: "rm -rf build" } };
+// A client without elicitation, so approvals go to the local queue
+const server = { getClientCapabilities: () => ({}) } as unknown as Server;
+
+describe("requestApproval", () => {
+  beforeEach(() => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("should queue approvals for the CLI when a token is set", async () => {
+    vi.stubEnv("WIRE_AGENT_TOKEN", "secret");
+
+    await expect(requestApproval(server, request)).resolves.toEqual({ approved: true, by: "cli" });
+    expect(approvalQueue.enqueue).toHaveBeenCalledWith(request, undefined);
+  });
+
+  it("should deny at once when the CLI could not answer without a token", async () => {
+    vi.stubEnv("WIRE_AGENT_TOKEN", "");
+
+    const decision = await requestApproval(server, request);
+
+    expect(decision).toMatchObject({ approved: false, by: "server" });
+    expect(decision.reason).toContain("WIRE_AGENT_TOKEN");
+    expect(approvalQueue.enqueue).not.toHaveBeenCalled();
+  });
+});
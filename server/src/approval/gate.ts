@@ -0,0 +1,78 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { approvalLogger as log } from "../utils/logger";
+import { redactParams } from "../audit/log";
+import { loadAuthConfig } from "../ws/auth";
+import { APPROVAL_REQUESTED, approvalQueue, type ApprovalDecision, type ApprovalRequest, type PendingApproval } from "./queue";
+
+// The CLI can only answer when the approval routes take requests, i.e. with a token
+approvalQueue.on(APPROVAL_REQUESTED, (approval: PendingApproval) => {
+  if (!loadAuthConfig().token) return;
+  log.warn(
+    `Approval ${approval.id} pending for ${approval.tool}, ` +
+    `run "wire-agent-server approvals approve ${approval.id}" (or deny)`
+  );
+});
+
+// Ask the user to approve a tool call: through MCP elicitation when the client
+// supports it, otherwise through the local queue resolved with the approvals CLI
+export async function requestApproval(
+  server: Server,
+  request: ApprovalRequest,
+  signal?: AbortSignal
+): Promise<ApprovalDecision> {
+  const decision = await ask(server, request, signal);
+  const verdict = decision.approved ? "approved" : "denied";
+  log.info(`${request.tool} ${verdict} by ${decision.by}`, {
+    executorId: request.executorId,
+    params: redactParams(request.action, request.params),
+    reason: decision.reason,
+  });
+  return decision;
+}
+
+async function ask(server: Server, request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+  if (server.getClientCapabilities()?.elicitation) {
+    try {
+      const result = await server.elicitInput(
+        {
+          message: describe(request),
+          requestedSchema: {
+            type: "object",
+            properties: {
+              approve: { type: "boolean", title: "Approve", description: `Run ${request.tool}` },
+            },
+            required: ["approve"],
+          },
+        },
+        { signal }
+      );
+      if (result.action === "accept") {
+        return result.content?.approve === true
+          ? { approved: true, by: "client" }
+          : { approved: false, by: "client", reason: "Denied by user" };
+      }
+      return { approved: false, by: "client", reason: `User chose ${result.action}` };
+    } catch (err) {
+      if (signal?.aborted) {
+        return { approved: false, by: "cancelled", reason: "Tool call cancelled" };
+      }
+      log.warn("Elicitation failed, falling back to the local approval queue", err);
+    }
+  }
+
+  // The approvals CLI needs the token to reach the approval routes; without
+  // one nobody could answer, so deny now rather than after the queue timeout
+  if (!loadAuthConfig().token) {
+    return {
+      approved: false,
+      by: "server",
+      reason: "The client cannot be asked and the approvals CLI needs WIRE_AGENT_TOKEN to be set on the server",
+    };
+  }
+  return approvalQueue.enqueue(request, signal);
+}
+
+function describe({ tool, executorId, params }: ApprovalRequest): string {
+  const target = executorId ? ` on ${executorId}` : "";
+  return `Allow ${tool}${target} with these parameters?\n\n${JSON.stringify(params, null, 2)}`;
+}
@@ -0,0 +1,42 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import { readJson, sendJson } from "../utils/http";
+import { approvalQueue } from "./queue";
+
+// ============================================================
+// Approval routes (used by the approvals CLI)
+//   GET  /approvals                 pending approvals
+//   POST /approvals/{id}/approve    body: { reason? }
+//   POST /approvals/{id}/deny       body: { reason? }
+// ============================================================
+
+const DECISION_ROUTE = /^\/approvals\/([^/]+)\/(approve|deny)$/;
+
+// Returns false when the request is not an approval route
+export async function handleApprovalRoute(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+  if (pathname === "/approvals" && req.method === "GET") {
+    sendJson(res, 200, approvalQueue.list());
+    return true;
+  }
+
+  const match = DECISION_ROUTE.exec(pathname);
+  if (!match || req.method !== "POST") return false;
+
+  const [, id, decision] = match;
+  let body: Record<string, unknown>;
+  try {
+    body = await readJson(req);
+  } catch (err) {
+    sendJson(res, 400, { error: err instanceof Error ? err.message : String(err) });
+    return true;
+  }
+
+  const reason = typeof body.reason === "string" ? body.reason : undefined;
+  if (!approvalQueue.decide(id, decision === "approve", reason)) {
+    sendJson(res, 404, { error: `No pending approval: ${id}` });
+    return true;
+  }
+  sendJson(res, 200, { id, approved: decision === "approve" });
+  return true;
+}
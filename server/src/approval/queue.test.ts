@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { APPROVAL_REQUESTED, ApprovalQueue } from "./queue";
+
+const request = { tool: "desktop_shell_exec", action: "shellExec", params: { command: "rm -rf build" } };
+
+describe("ApprovalQueue", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should list pending approvals until decided", async () => {
+    const queue = new ApprovalQueue();
+    const decision = queue.enqueue(request);
+
+    const [pending] = queue.list();
+    expect(pending).toMatchObject({ id: "1", ...request });
+
+    expect(queue.decide(pending.id, true)).toBe(true);
+    await expect(decision).resolves.toEqual({ approved: true, by: "cli", reason: undefined });
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("should pass on denial reasons", async () => {
+    const queue = new ApprovalQueue();
+    const decision = queue.enqueue(request);
+
+    queue.decide("1", false, "not today");
+    await expect(decision).resolves.toEqual({ approved: false, by: "cli", reason: "not today" });
+  });
+
+  it("should not decide unknown approvals", () => {
+    expect(new ApprovalQueue().decide("42", true)).toBe(false);
+  });
+
+  it("should announce queued approvals", () => {
+    const queue = new ApprovalQueue();
+    const listener = vi.fn();
+    queue.on(APPROVAL_REQUESTED, listener);
+
+    queue.enqueue(request);
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: "1", tool: "desktop_shell_exec" }));
+  });
+
+  it("should deny approvals nobody answers in time", async () => {
+    vi.useFakeTimers();
+    const queue = new ApprovalQueue(1000);
+    const decision = queue.enqueue(request);
+
+    vi.advanceTimersByTime(1000);
+    await expect(decision).resolves.toMatchObject({ approved: false, by: "timeout" });
+    expect(queue.list()).toEqual([]);
+  });
+
+  it("should deny approvals whose tool call is cancelled", async () => {
+    const queue = new ApprovalQueue();
+    const controller = new AbortController();
+    const decision = queue.enqueue(request, controller.signal);
+
+    controller.abort();
+    await expect(decision).resolves.toMatchObject({ approved: false, by: "cancelled" });
+    expect(queue.list()).toEqual([]);
+  });
+});
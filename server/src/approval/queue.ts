@@ -0,0 +1,77 @@
+import { EventEmitter } from "events";
+
+export interface ApprovalRequest {
+  tool: string;
+  action: string;
+  params: Record<string, unknown>;
+  executorId?: string;
+}
+
+export interface PendingApproval extends ApprovalRequest {
+  id: string;
+  requestedAt: number;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  // Who decided: the MCP client user, the local CLI, nobody in time, or the
+  // server because nobody could be asked
+  by: "client" | "cli" | "timeout" | "cancelled" | "server";
+  reason?: string;
+}
+
+// Emitted with the PendingApproval whenever one is queued
+export const APPROVAL_REQUESTED = "approvalRequested";
+
+// Approvals waiting for a decision from the CLI, used when the MCP client
+// cannot be asked through elicitation
+export class ApprovalQueue extends EventEmitter {
+  private pending: Map<string, {
+    approval: PendingApproval;
+    resolve: (decision: ApprovalDecision) => void;
+  }> = new Map();
+  private nextId = 1;
+
+  constructor(private readonly timeoutMs = 5 * 60 * 1000) {
+    super();
+  }
+
+  enqueue(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+    const approval: PendingApproval = { ...request, id: String(this.nextId++), requestedAt: Date.now() };
+
+    return new Promise((resolve) => {
+      const settle = (decision: ApprovalDecision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(approval.id);
+        resolve(decision);
+      };
+
+      // Unanswered requests are denied rather than left hanging
+      const timer = setTimeout(() => {
+        settle({ approved: false, by: "timeout", reason: `No decision within ${this.timeoutMs}ms` });
+      }, this.timeoutMs);
+
+      const onAbort = () => settle({ approved: false, by: "cancelled", reason: "Tool call cancelled" });
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(approval.id, { approval, resolve: settle });
+      this.emit(APPROVAL_REQUESTED, approval);
+    });
+  }
+
+  list(): PendingApproval[] {
+    return Array.from(this.pending.values()).map((p) => p.approval);
+  }
+
+  decide(id: string, approved: boolean, reason?: string): boolean {
+    const pending = this.pending.get(id);
+    if (!pending) return false;
+    pending.resolve({ approved, by: "cli", reason });
+    return true;
+  }
+}
+
+// Singleton instance
+export const approvalQueue = new ApprovalQueue();
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+vi.mock("../utils/logger", () => ({
+  auditLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { AuditLog, GENESIS_HASH, redact, redactParams, verifyAuditLog, type AuditRecord } from "./log";
+
+const command = (action: string): AuditRecord => ({
+  kind: "command",
+  requestId: `req_${action}`,
+  action,
+  executorId: "desktop:linux:host",
+  params: {},
+  durationMs: 5,
+  outcome: "ok",
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wire-agent-audit-"));
+    file = path.join(dir, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readEntries = () =>
+    fs.readFileSync(file, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+
+  it("should drop records until opened", () => {
+    const audit = new AuditLog();
+    audit.record(command("click"));
+
+    expect(audit.enabled).toBe(false);
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it("should append hash-chained entries", () => {
+    const audit = new AuditLog();
+    audit.open(file);
+    audit.record(command("click"));
+    audit.record(command("type"));
+
+    const [first, second] = readEntries();
+    expect(first).toMatchObject({ seq: 1, action: "click", prevHash: GENESIS_HASH });
+    expect(second).toMatchObject({ seq: 2, action: "type", prevHash: first.hash });
+    expect(verifyAuditLog(file)).toEqual({ ok: true, entries: 2, head: second.hash });
+  });
+
+  it("should continue the chain of an existing file", () => {
+    const first = new AuditLog();
+    first.open(file);
+    first.record(command("click"));
+
+    const second = new AuditLog();
+    second.open(file);
+    second.record(command("type"));
+
+    expect(readEntries().map((e) => e.seq)).toEqual([1, 2]);
+    expect(verifyAuditLog(file).ok).toBe(true);
+  });
+
+  it("should keep one chain when two processes append to the same file", () => {
+    const daemon = new AuditLog();
+    const stdio = new AuditLog();
+    daemon.open(file);
+    stdio.open(file);
+
+    daemon.record(command("click"));
+    stdio.record(command("type"));
+    daemon.record(command("scroll"));
+
+    expect(readEntries().map((e) => [e.seq, e.action])).toEqual([[1, "click"], [2, "type"], [3, "scroll"]]);
+    expect(verifyAuditLog(file).ok).toBe(true);
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("should start a new segment after a damaged last entry", () => {
+    const audit = new AuditLog();
+    audit.open(file);
+    audit.record(command("click"));
+    fs.appendFileSync(file, '{"seq":2,"time":"2026-');
+
+    const restarted = new AuditLog();
+    restarted.open(file);
+    restarted.record(command("type"));
+
+    const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+    expect(JSON.parse(lines[2])).toMatchObject({ seq: 1, kind: "segment", prevHash: GENESIS_HASH });
+    expect(JSON.parse(lines[3])).toMatchObject({ seq: 2, action: "type" });
+    expect(verifyAuditLog(file)).toMatchObject({
+      ok: true,
+      entries: 3,
+      breaks: [{ line: 2, message: "Damaged entry, a new segment follows" }],
+    });
+  });
+
+  it("should key the chain when given a key", () => {
+    const audit = new AuditLog();
+    audit.open(file, "s3cret");
+    audit.record(command("click"));
+
+    expect(verifyAuditLog(file, "s3cret").ok).toBe(true);
+    expect(verifyAuditLog(file).error?.message).toBe("Entry 1 was modified");
+    expect(verifyAuditLog(file, "guess").ok).toBe(false);
+  });
+
+  describe("verifyAuditLog", () => {
+    beforeEach(() => {
+      const audit = new AuditLog();
+      audit.open(file);
+      for (const action of ["click", "type", "shellExec"]) audit.record(command(action));
+    });
+
+    const rewrite = (edit: (lines: string[]) => string[]) => {
+      const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+      fs.writeFileSync(file, edit(lines).join("\n") + "\n");
+    };
+
+    it("should detect modified entries", () => {
+      rewrite((lines) => lines.map((line) => line.replace('"shellExec"', '"click"')));
+
+      expect(verifyAuditLog(file)).toMatchObject({
+        ok: false,
+        entries: 2,
+        error: { line: 3, message: "Entry 3 was modified" },
+      });
+    });
+
+    it("should detect deleted entries", () => {
+      rewrite((lines) => [lines[0], lines[2]]);
+
+      expect(verifyAuditLog(file)).toMatchObject({ ok: false, error: { line: 2, message: "Expected seq 2, found 3" } });
+    });
+
+    it("should detect a deleted head of the log", () => {
+      rewrite((lines) => lines.slice(1));
+
+      expect(verifyAuditLog(file)).toMatchObject({ ok: false, error: { line: 1 } });
+    });
+
+    it("should detect re-hashed entries that no longer link", () => {
+      rewrite((lines) => {
+        const entry = JSON.parse(lines[1]);
+        entry.prevHash = GENESIS_HASH;
+        return [lines[0], JSON.stringify(entry), lines[2]];
+      });
+
+      expect(verifyAuditLog(file).error?.message).toBe("Entry 2 does not link to the previous entry");
+    });
+  });
+});
+
+describe("redact", () => {
+  it("should hide values under secret-looking keys", () => {
+    expect(redact({ url: "https://x.io", password: "hunter2", headers: { Authorization: "Bearer t" } })).toEqual({
+      url: "https://x.io",
+      password: "[REDACTED]",
+      headers: { Authorization: "[REDACTED]" },
+    });
+  });
+
+  it("should cap long strings", () => {
+    const redacted = redact({ content: "x".repeat(1500) }) as { content: string };
+
+    expect(redacted.content).toHaveLength(1000 + "…[500 more chars]".length);
+  });
+
+  it("should hide cookie values", () => {
+    expect(redactParams("cookieSet", { name: "sid", value: "abc" })).toEqual({ name: "sid", value: "[REDACTED]" });
+    expect(redactParams("select", { selector: "#s", value: "abc" })).toEqual({ selector: "#s", value: "abc" });
+  });
+});
@@ -0,0 +1,310 @@
+import { createHash, createHmac } from "crypto";
+import fs from "fs";
+import path from "path";
+import { auditLogger as log } from "../utils/logger";
+
+// ============================================================
+// Entry types
+// ============================================================
+
+export type AuditOutcome = "ok" | "error";
+
+// One MCP tool call, as seen by the CallTool handler
+export interface ToolCallRecord {
+  kind: "tool";
+  tool: string;
+  action?: string;
+  executorId?: string;
+  sessionId?: string;
+  args: unknown;
+  durationMs: number;
+  outcome: AuditOutcome;
+  code?: string;
+}
+
+// One command dispatched (or refused) by ExecutorManager.execute
+export interface CommandRecord {
+  kind: "command";
+  requestId: string;
+  action: string;
+  executorId?: string;
+  sessionId?: string;
+  params: unknown;
+  durationMs: number;
+  outcome: AuditOutcome;
+  code?: string;
+}
+
+// First entry of a new chain, written when the old one cannot be continued
+export interface SegmentRecord {
+  kind: "segment";
+  reason: string;
+}
+
+export type AuditRecord = ToolCallRecord | CommandRecord | SegmentRecord;
+
+export type AuditEntry = AuditRecord & {
+  seq: number;
+  time: string;
+  prevHash: string;
+  // sha256 (HMAC-SHA256 with a key) of the entry serialized without this field
+  hash: string;
+};
+
+export const GENESIS_HASH = "0".repeat(64);
+
+// ============================================================
+// Redaction
+// ============================================================
+
+const SECRET_KEY = /pass(word|phrase)?|secret|token|api[-_]?key|auth|cookie|credential|session/i;
+const MAX_STRING_LENGTH = 1000;
+
+// Replace values under secret-looking keys and cap long strings (file contents, scripts)
+export function redact(value: unknown, key = ""): unknown {
+  if (key && SECRET_KEY.test(key)) return "[REDACTED]";
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}…[${value.length - MAX_STRING_LENGTH} more chars]`;
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+// Cookie values are secrets whatever the key is called
+export function redactParams(action: string | undefined, params: unknown): unknown {
+  const redacted = redact(params);
+  if (action?.startsWith("cookie") && redacted && typeof redacted === "object" && "value" in redacted) {
+    return { ...redacted, value: "[REDACTED]" };
+  }
+  return redacted;
+}
+
+// ============================================================
+// Hash chain
+// ============================================================
+
+// Without a key anyone who can write the file can recompute the chain; with
+// one kept off the host, they cannot
+export function hashEntry(entry: Omit<AuditEntry, "hash">, key?: string): string {
+  const hash = key ? createHmac("sha256", key) : createHash("sha256");
+  return hash.update(JSON.stringify(entry)).digest("hex");
+}
+
+// Last line of the file, read from the end so large logs stay cheap to open
+function readLastLine(file: string): string | null {
+  if (!fs.existsSync(file)) return null;
+  const fd = fs.openSync(file, "r");
+  try {
+    const { size } = fs.fstatSync(fd);
+    let chunkSize = 64 * 1024;
+    for (;;) {
+      const start = Math.max(0, size - chunkSize);
+      const buffer = Buffer.alloc(size - start);
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+      const lines = buffer.toString("utf8").split("\n").filter((line) => line.trim());
+      if (lines.length > 1 || start === 0) {
+        return lines[lines.length - 1] ?? null;
+      }
+      chunkSize *= 2;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// ============================================================
+// Audit log
+// ============================================================
+
+// Another process (the daemon and a stdio server) may append to the same
+// file; a lock file held for each append keeps the chain in one line
+const LOCK_RETRY_MS = 5;
+// A lock this old belongs to a process that died while holding it
+const LOCK_STALE_MS = 2000;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function withLock<T>(file: string, fn: () => T): T {
+  const lock = `${file}.lock`;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lock, "wx", 0o600));
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      try {
+        if (Date.now() - fs.statSync(lock).mtimeMs > LOCK_STALE_MS) {
+          log.warn(`Removing stale audit log lock: ${lock}`);
+          fs.rmSync(lock, { force: true });
+          continue;
+        }
+      } catch {
+        // Released between the open and the stat
+        continue;
+      }
+      sleepSync(LOCK_RETRY_MS);
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lock, { force: true });
+  }
+}
+
+// Append-only JSONL log; records are dropped until open() is called
+export class AuditLog {
+  private file: string | null = null;
+  private key?: string;
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+
+  // Continue the chain of an existing file, or start a new one
+  open(file: string, key?: string): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.file = file;
+    this.key = key || undefined;
+    withLock(file, () => this.readHead());
+    log.info(`Audit log: ${file}`, { entries: this.seq, keyed: !!this.key });
+  }
+
+  close(): void {
+    this.file = null;
+    this.key = undefined;
+    this.seq = 0;
+    this.lastHash = GENESIS_HASH;
+  }
+
+  get enabled(): boolean {
+    return this.file !== null;
+  }
+
+  record(record: AuditRecord): void {
+    if (!this.file) return;
+    const file = this.file;
+
+    try {
+      withLock(file, () => {
+        // Entries other processes appended since our last one come first
+        this.readHead();
+        this.append(file, record);
+      });
+    } catch (err) {
+      log.error(`Failed to write audit entry ${this.seq + 1}`, err);
+    }
+  }
+
+  // Pick up the chain where the file ends. A last line that does not parse
+  // (a crash mid-write) cannot be linked to, so a new segment starts after it.
+  private readHead(): void {
+    const file = this.file!;
+    const last = readLastLine(file);
+    if (!last) {
+      this.seq = 0;
+      this.lastHash = GENESIS_HASH;
+      return;
+    }
+
+    try {
+      const entry = JSON.parse(last) as AuditEntry;
+      this.seq = entry.seq;
+      this.lastHash = entry.hash;
+    } catch {
+      log.error(`Audit log ${file} ends in a damaged entry, the chain is broken there; starting a new segment`);
+      this.seq = 0;
+      this.lastHash = GENESIS_HASH;
+      // The damaged line may lack its newline
+      fs.appendFileSync(file, "\n");
+      this.append(file, { kind: "segment", reason: "Previous entry was damaged" });
+    }
+  }
+
+  private append(file: string, record: AuditRecord): void {
+    const unhashed = {
+      seq: this.seq + 1,
+      time: new Date().toISOString(),
+      ...record,
+      prevHash: this.lastHash,
+    };
+    const entry = { ...unhashed, hash: hashEntry(unhashed as Omit<AuditEntry, "hash">, this.key) };
+
+    // Synchronous so entries land in order and survive a crash right after
+    fs.appendFileSync(file, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    this.seq = entry.seq;
+    this.lastHash = entry.hash;
+  }
+}
+
+// ============================================================
+// Verification
+// ============================================================
+
+export interface VerifyResult {
+  ok: boolean;
+  entries: number;
+  // Hash of the last valid entry; store it elsewhere to detect truncation
+  head: string;
+  error?: { line: number; message: string };
+  // Damaged lines after which the server started a new segment
+  breaks?: { line: number; message: string }[];
+}
+
+function isSegmentStart(line: string | undefined): boolean {
+  try {
+    const entry = JSON.parse(line ?? "") as AuditEntry;
+    return entry.kind === "segment" && entry.seq === 1 && entry.prevHash === GENESIS_HASH;
+  } catch {
+    return false;
+  }
+}
+
+export function verifyAuditLog(file: string, key?: string): VerifyResult {
+  const lines = fs.readFileSync(file, "utf8").split("\n");
+  let prevHash = GENESIS_HASH;
+  let prevSeq = 0;
+  let entries = 0;
+  const breaks: { line: number; message: string }[] = [];
+  const result = (fields: Partial<VerifyResult> = {}): VerifyResult => ({
+    ok: true,
+    entries,
+    head: prevHash,
+    ...(breaks.length > 0 ? { breaks } : {}),
+    ...fields,
+  });
+
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    const fail = (message: string) => result({ ok: false, error: { line: i + 1, message } });
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      const next = lines.slice(i + 1).find((l) => l.trim());
+      if (!isSegmentStart(next)) return fail("Not valid JSON");
+      breaks.push({ line: i + 1, message: "Damaged entry, a new segment follows" });
+      prevHash = GENESIS_HASH;
+      prevSeq = 0;
+      continue;
+    }
+
+    const { hash, ...unhashed } = entry;
+    if (entry.seq !== prevSeq + 1) return fail(`Expected seq ${prevSeq + 1}, found ${entry.seq}`);
+    if (entry.prevHash !== prevHash) return fail(`Entry ${entry.seq} does not link to the previous entry`);
+    if (hashEntry(unhashed, key) !== hash) return fail(`Entry ${entry.seq} was modified`);
+
+    prevHash = hash;
+    prevSeq = entry.seq;
+    entries++;
+  }
+
+  return result();
+}
+
+// Singleton instance
+export const auditLog = new AuditLog();
@@ -0,0 +1,52 @@
+import type { ErrorCode } from "@wire-agent/protocol";
+
+// ============================================================
+// Requests to the admin routes of a running server
+// ============================================================
+
+// Defaults to where a server started with the same environment listens
+function defaultAdminUrl(env: NodeJS.ProcessEnv): string {
+  const scheme = env.WS_TLS_CERT ? "https" : "http";
+  const host = !env.WS_HOST || env.WS_HOST === "0.0.0.0" || env.WS_HOST === "::" ? "127.0.0.1" : env.WS_HOST;
+  return `${scheme}://${host.includes(":") ? `[${host}]` : host}:${env.WS_PORT || "3888"}`;
+}
+
+export const ADMIN_URL = process.env.WIRE_AGENT_ADMIN_URL || defaultAdminUrl(process.env);
+
+export class AdminError extends Error {
+  constructor(message: string, readonly code?: ErrorCode) {
+    super(message);
+    this.name = "AdminError";
+  }
+}
+
+// Throws AdminError, with the error code the server sent, for failed responses
+export async function adminFetch(method: string, path: string, body?: unknown): Promise<Response> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (process.env.WIRE_AGENT_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.WIRE_AGENT_TOKEN}`;
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(`${ADMIN_URL}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (err) {
+    const cause = (err as { cause?: { message?: string } }).cause?.message;
+    throw new AdminError(`Cannot reach the server at ${ADMIN_URL}${cause ? `: ${cause}` : ""}`);
+  }
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as { code?: ErrorCode; error?: string };
+    const hint = res.status === 401 ? " (check WIRE_AGENT_TOKEN)" : "";
+    throw new AdminError(`${data.error || `HTTP ${res.status}`}${hint}`, data.code);
+  }
+  return res;
+}
+
+export async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const res = await adminFetch(method, path, body);
+  return (await res.json()) as T;
+}
@@ -0,0 +1,41 @@
+import type { PendingApproval } from "../approval/queue";
+import { request } from "./admin";
+
+// ============================================================
+// wire-agent-server approvals [list | approve <id> | deny <id> [reason]]
+// ============================================================
+
+const USAGE = `Usage: wire-agent-server approvals [list | approve <id> [reason] | deny <id> [reason]]`;
+
+export async function approvalsCli(args: string[]): Promise<number> {
+  const [command = "list", id, ...reason] = args;
+
+  try {
+    if (command === "list") {
+      const approvals = await request<PendingApproval[]>("GET", "/approvals");
+      if (approvals.length === 0) {
+        console.log("No pending approvals");
+      }
+      for (const approval of approvals) {
+        const age = Math.round((Date.now() - approval.requestedAt) / 1000);
+        console.log(`[${approval.id}] ${approval.tool} on ${approval.executorId ?? "default executor"} (${age}s ago)`);
+        console.log(JSON.stringify(approval.params, null, 2));
+      }
+      return 0;
+    }
+
+    if ((command === "approve" || command === "deny") && id) {
+      await request("POST", `/approvals/${encodeURIComponent(id)}/${command}`, {
+        reason: reason.join(" ") || undefined,
+      });
+      console.log(`${command === "approve" ? "Approved" : "Denied"} ${id}`);
+      return 0;
+    }
+
+    console.error(USAGE);
+    return 1;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+vi.mock("../utils/logger", () => ({
+  auditLogger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { AuditLog } from "../audit/log";
+import { auditCli } from "./audit";
+
+describe("auditCli", () => {
+  let dir: string;
+  let file: string;
+  let stderr: string[];
+
+  const record = () => {
+    const audit = new AuditLog();
+    audit.open(file);
+    audit.record({ kind: "command", requestId: "req_1", action: "click", params: {}, durationMs: 5, outcome: "ok" });
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wire-agent-audit-cli-"));
+    file = path.join(dir, "audit.jsonl");
+    stderr = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation((line) => void stderr.push(line));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should exit 0 for an intact log", () => {
+    record();
+
+    expect(auditCli(["verify"], file)).toBe(0);
+    expect(stderr).toEqual([]);
+  });
+
+  describe("with a damaged entry and a new segment", () => {
+    beforeEach(() => {
+      record();
+      fs.appendFileSync(file, '{"seq":2,"time":"2026-');
+      record();
+    });
+
+    it("should fail", () => {
+      expect(auditCli(["verify", file], "unused.jsonl")).toBe(1);
+      expect(stderr).toEqual([
+        `${file}: line 2: Damaged entry, a new segment follows`,
+        `${file}: 1 damaged entry, pass --allow-breaks to accept them`,
+      ]);
+    });
+
+    it("should pass with --allow-breaks", () => {
+      expect(auditCli(["verify", "--allow-breaks"], file)).toBe(0);
+      expect(stderr).toEqual([`${file}: line 2: Damaged entry, a new segment follows`]);
+    });
+  });
+
+  it("should reject unknown arguments", () => {
+    expect(auditCli(["verify", file, "extra"], file)).toBe(1);
+    expect(stderr).toEqual(["Usage: wire-agent-server audit verify [--allow-breaks] [file]"]);
+  });
+});
@@ -0,0 +1,44 @@
+import { verifyAuditLog } from "../audit/log";
+
+// ============================================================
+// wire-agent-server audit verify [--allow-breaks] [file]
+// ============================================================
+
+const USAGE = "Usage: wire-agent-server audit verify [--allow-breaks] [file]";
+
+export function auditCli(args: string[], defaultFile: string, key?: string): number {
+  // A damaged line followed by a new segment is also what truncating the log
+  // and restarting looks like, so it fails unless explicitly accepted
+  const allowBreaks = args.includes("--allow-breaks");
+  const [command, file = defaultFile, ...rest] = args.filter((arg) => arg !== "--allow-breaks");
+  if (command !== "verify" || rest.length > 0) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const result = verifyAuditLog(file, key);
+    for (const { line, message } of result.breaks ?? []) {
+      console.error(`${file}: line ${line}: ${message}`);
+    }
+    if (!result.ok) {
+      console.error(`${file}: chain broken at line ${result.error!.line}: ${result.error!.message}`);
+      console.error(`${result.entries} entries verified before the break`);
+      if (result.entries === 0 && result.error!.message.endsWith("was modified")) {
+        console.error(key ? "Is WIRE_AGENT_AUDIT_KEY the key the log was written with?" : "Was the log written with WIRE_AGENT_AUDIT_KEY set?");
+      }
+      return 1;
+    }
+    const segments = result.breaks ? ` in ${result.breaks.length + 1} segments` : "";
+    console.log(`${file}: ${result.entries} entries verified${segments}`);
+    console.log(`Head: ${result.head}`);
+    if (result.breaks && !allowBreaks) {
+      console.error(`${file}: ${result.breaks.length} damaged ${result.breaks.length === 1 ? "entry" : "entries"}, pass --allow-breaks to accept them`);
+      return 1;
+    }
+    return 0;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("./admin", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./admin")>()),
+  adminFetch: vi.fn(),
+  request: vi.fn(),
+}));
+
+import { AdminError, adminFetch, request } from "./admin";
+import { clientCli } from "./client";
+
+const json = (body: unknown) => new Response(JSON.stringify(body));
+
+// A server-sent event stream that arrives in the given chunks
+function stream(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  }));
+}
+
+describe("clientCli", () => {
+  let stdout: string[];
+  let stderr: string[];
+
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    vi.spyOn(console, "log").mockImplementation((line) => void stdout.push(line));
+    vi.spyOn(console, "error").mockImplementation((line) => void stderr.push(line));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(adminFetch).mockReset();
+    vi.mocked(request).mockReset();
+  });
+
+  describe("arguments", () => {
+    it("should pass params that parse as JSON as JSON and others as strings", async () => {
+      vi.mocked(adminFetch).mockResolvedValue(json({ id: "req_1", success: true, data: "done" }));
+
+      const code = await clientCli([
+        "exec", "navigate", "-e", "platform=browser",
+        "-p", "count=3", "-p", "url=https://example.com/?a=b", "-p", 'pos={"x":1}', "-p", "flag=true", "-p", "name=",
+        "--timeout", "5000",
+      ]);
+
+      expect(code).toBe(0);
+      expect(adminFetch).toHaveBeenCalledWith("POST", "/executors/platform%3Dbrowser/execute", {
+        action: "navigate",
+        params: { count: 3, url: "https://example.com/?a=b", pos: { x: 1 }, flag: true, name: "" },
+        timeoutMs: 5000,
+      });
+      expect(stdout).toEqual(["done"]);
+    });
+
+    it("should run on the server's default executor without -e", async () => {
+      vi.mocked(request).mockResolvedValue({ executors: [], pools: [], defaultExecutorId: "desktop" });
+      vi.mocked(adminFetch).mockResolvedValue(json({ id: "req_1", success: true, data: { ok: 1 } }));
+
+      await clientCli(["exec", "getContent"]);
+
+      expect(adminFetch).toHaveBeenCalledWith("POST", "/executors/desktop/execute", expect.anything());
+    });
+
+    it.each([
+      [["exec", "click", "-p", "=1"], 'Expected key=value, got "=1"'],
+      [["exec", "click", "-p", "selector"], 'Expected key=value, got "selector"'],
+      [["exec", "click", "-e"], "-e needs a value"],
+      [["exec", "click", "--timeout", "0"], "--timeout must be a positive number of milliseconds"],
+      [["exec", "--verbose"], "Unknown option --verbose"],
+      [["exec"], "exec needs an action"],
+      [["launch"], "Unknown command launch"],
+    ])("should exit 2 with the usage for %j", async (args, error) => {
+      expect(await clientCli(args)).toBe(2);
+      expect(stderr[0]).toBe(`Error: ${error}`);
+      expect(stderr[1]).toMatch(/^Usage: wire-agent/);
+      expect(adminFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("errors", () => {
+    it.each([
+      ["ELEMENT_NOT_FOUND", 10],
+      ["EXECUTOR_LEASED", 15],
+      ["EXECUTION_FAILED", 19],
+    ] as const)("should exit with the code for %s", async (code, exit) => {
+      vi.mocked(adminFetch).mockRejectedValue(new AdminError("It failed", code));
+
+      expect(await clientCli(["exec", "click", "-e", "desktop"])).toBe(exit);
+      expect(stderr).toEqual([`Error [${code}]: It failed`]);
+    });
+
+    it("should exit 1 for failures without an error code", async () => {
+      vi.mocked(request).mockRejectedValue(new AdminError("Cannot reach the server at http://127.0.0.1:3888"));
+
+      expect(await clientCli(["executors"])).toBe(1);
+      expect(stderr).toEqual(["Error: Cannot reach the server at http://127.0.0.1:3888"]);
+    });
+
+    it("should print failures as JSON with --json", async () => {
+      vi.mocked(adminFetch).mockRejectedValue(new AdminError("Request timeout", "TIMEOUT"));
+
+      expect(await clientCli(["exec", "click", "-e", "desktop", "--json"])).toBe(11);
+      expect(JSON.parse(stdout[0])).toEqual({ code: "TIMEOUT", error: "Request timeout" });
+      expect(stderr).toEqual([]);
+    });
+  });
+
+  describe("output", () => {
+    const list = {
+      executors: [
+        { executorId: "desktop", platform: "desktop", health: "healthy", pendingRequests: 0, latencyMs: 12, tags: ["ci"] },
+        { executorId: "browser", platform: "browser", health: "degraded", pendingRequests: 2 },
+      ],
+      pools: [],
+      defaultExecutorId: "desktop",
+    };
+
+    it("should list executors with the default marked", async () => {
+      vi.mocked(request).mockResolvedValue(list);
+
+      await clientCli(["executors"]);
+
+      expect(stdout).toEqual([
+        "* desktop  desktop  healthy  pending 0  latency 12ms  [ci]\n" +
+        "  browser  browser  degraded  pending 2  latency -",
+      ]);
+    });
+
+    it("should print what the server sent with --json", async () => {
+      vi.mocked(request).mockResolvedValue(list);
+
+      await clientCli(["executors", "--json"]);
+
+      expect(JSON.parse(stdout[0])).toEqual(list);
+    });
+  });
+
+  describe("tail", () => {
+    const log = { time: "2026-01-01T00:00:00.000Z", level: "info", logger: "Executor", message: "Registered desktop" };
+    const event = { executorId: "browser", event: "navigation", timestamp: 0, seq: 1, data: { url: "https://example.com" } };
+    const messages = `: tailing\n\nevent: log\ndata: ${JSON.stringify(log)}\n\n: keepalive\n\nevent: executor\ndata: ${JSON.stringify(event)}\n\n`;
+
+    it("should print log records and events as they arrive, split anywhere", async () => {
+      // Chunks that break lines and messages apart
+      vi.mocked(adminFetch).mockResolvedValue(stream([messages.slice(0, 20), messages.slice(20, 61), messages.slice(61)]));
+
+      expect(await clientCli(["tail", "--level", "debug"])).toBe(0);
+
+      expect(adminFetch).toHaveBeenCalledWith("GET", "/tail?level=debug");
+      expect(stdout).toEqual([
+        "[2026-01-01T00:00:00.000Z] [INFO ] [Executor] Registered desktop",
+        '[1970-01-01T00:00:00.000Z] [EVENT] [browser] navigation {"url":"https://example.com"}',
+      ]);
+    });
+
+    it("should print one JSON object per message with --json", async () => {
+      vi.mocked(adminFetch).mockResolvedValue(stream([messages]));
+
+      await clientCli(["tail", "--json"]);
+
+      expect(stdout.map((line) => JSON.parse(line))).toEqual([
+        { type: "log", ...log },
+        { type: "executor", ...event },
+      ]);
+    });
+  });
+});
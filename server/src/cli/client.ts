@@ -0,0 +1,248 @@
+import { writeFileSync } from "fs";
+import { ERROR_CODES, type ErrorCode, type ExecuteResult, type ExecutorInfo, type PoolInfo } from "@wire-agent/protocol";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ADMIN_URL, AdminError, adminFetch, request } from "./admin";
+
+// ============================================================
+// wire-agent: drive a running server's executors from the shell
+// ============================================================
+
+const USAGE = `Usage: wire-agent <command> [options]
+
+Commands:
+  executors                         List executors; * marks the default
+  exec <action> [-p key=value]...   Run a protocol action, e.g. exec navigate -p url=https://example.com
+  screenshot [-o file.png]          Save a screenshot (default: screenshot.png)
+  use <id>                          Make an executor the default
+  tail [--level debug]              Stream server logs and executor events
+  tools                             Print the MCP tool catalogue
+
+Options:
+  -e, --executor <id>   Executor ID or selector (default: the server's default executor)
+  -p, --param key=value Action parameter; values that parse as JSON are passed as JSON
+  --timeout <ms>        Command timeout
+  --selector <css>      screenshot: element to capture (browsers)
+  --full-page           screenshot: capture the full scrollable page (browsers)
+  --json                Print JSON for scripts
+
+Talks to ${ADMIN_URL} (WIRE_AGENT_ADMIN_URL), sending WIRE_AGENT_TOKEN if set.
+Exit codes: 0 ok, 1 other failure, 2 usage, 10 and up the error code (see README).`;
+
+interface Options {
+  positional: string[];
+  executor?: string;
+  params: Record<string, unknown>;
+  timeoutMs?: number;
+  output?: string;
+  selector?: string;
+  fullPage: boolean;
+  level?: string;
+  json: boolean;
+}
+
+class UsageError extends Error {}
+
+interface ExecutorList {
+  executors: ExecutorInfo[];
+  pools: PoolInfo[];
+  defaultExecutorId: string | null;
+}
+
+// Exit status for a structured error code, stable as long as ERROR_CODES only grows at the end
+function exitCode(code: ErrorCode | undefined): number {
+  const index = code ? ERROR_CODES.indexOf(code) : -1;
+  return index === -1 ? 1 : 10 + index;
+}
+
+// "count=3" -> 3, "url=https://x" -> "https://x", 'pos={"x":1}' -> { x: 1 }
+function parseParam(param: string): [string, unknown] {
+  const separator = param.indexOf("=");
+  if (separator <= 0) {
+    throw new UsageError(`Expected key=value, got "${param}"`);
+  }
+  const key = param.slice(0, separator);
+  const raw = param.slice(separator + 1);
+  try {
+    return [key, JSON.parse(raw)];
+  } catch {
+    return [key, raw];
+  }
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { positional: [], params: {}, fullPage: false, json: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new UsageError(`${arg} needs a value`);
+      return next;
+    };
+
+    if (arg === "-e" || arg === "--executor") options.executor = value();
+    else if (arg === "-p" || arg === "--param") {
+      const [key, param] = parseParam(value());
+      options.params[key] = param;
+    } else if (arg === "-o" || arg === "--output") options.output = value();
+    else if (arg === "--timeout") {
+      const timeoutMs = Number(value());
+      if (!(timeoutMs > 0)) throw new UsageError("--timeout must be a positive number of milliseconds");
+      options.timeoutMs = timeoutMs;
+    } else if (arg === "--selector") options.selector = value();
+    else if (arg === "--full-page") options.fullPage = true;
+    else if (arg === "--level") options.level = value();
+    else if (arg === "--json") options.json = true;
+    else if (arg.startsWith("-")) throw new UsageError(`Unknown option ${arg}`);
+    else options.positional.push(arg);
+  }
+  return options;
+}
+
+function print(options: Options, json: unknown, text: () => string): void {
+  console.log(options.json ? JSON.stringify(json, null, 2) : text());
+}
+
+// The given executor, or the one the server uses by default
+async function targetExecutor(options: Options): Promise<string> {
+  if (options.executor) return options.executor;
+  const { defaultExecutorId } = await request<ExecutorList>("GET", "/executors");
+  if (!defaultExecutorId) {
+    throw new AdminError("No executor connected", "EXECUTOR_NOT_FOUND");
+  }
+  return defaultExecutorId;
+}
+
+async function executors(options: Options): Promise<void> {
+  const list = await request<ExecutorList>("GET", "/executors");
+  print(options, list, () => {
+    if (list.executors.length === 0) return "No executors connected";
+    return list.executors
+      .map((executor) => {
+        const marker = executor.executorId === list.defaultExecutorId ? "*" : " ";
+        const latency = executor.latencyMs === undefined ? "-" : `${executor.latencyMs}ms`;
+        const tags = executor.tags?.length ? `  [${executor.tags.join(", ")}]` : "";
+        return `${marker} ${executor.executorId}  ${executor.platform}  ${executor.health}  ` +
+          `pending ${executor.pendingRequests}  latency ${latency}${tags}`;
+      })
+      .join("\n");
+  });
+}
+
+async function exec(options: Options): Promise<void> {
+  const [, action] = options.positional;
+  if (!action) throw new UsageError("exec needs an action");
+  const executorId = await targetExecutor(options);
+
+  const res = await adminFetch("POST", `/executors/${encodeURIComponent(executorId)}/execute`, {
+    action,
+    params: options.params,
+    timeoutMs: options.timeoutMs,
+  });
+  const result = (await res.json()) as Omit<ExecuteResult, "type">;
+  print(options, result, () =>
+    typeof result.data === "string" ? result.data : JSON.stringify(result.data ?? null, null, 2)
+  );
+}
+
+async function screenshot(options: Options): Promise<void> {
+  const executorId = await targetExecutor(options);
+  const query = new URLSearchParams();
+  if (options.selector) query.set("selector", options.selector);
+  if (options.fullPage) query.set("fullPage", "true");
+
+  const path = `/executors/${encodeURIComponent(executorId)}/screenshot${query.toString() ? `?${query}` : ""}`;
+  const image = Buffer.from(await (await adminFetch("GET", path)).arrayBuffer());
+  const file = options.output ?? "screenshot.png";
+  writeFileSync(file, image);
+  print(options, { executorId, file, bytes: image.length }, () => `Saved ${image.length} bytes from ${executorId} to ${file}`);
+}
+
+async function use(options: Options): Promise<void> {
+  const [, id] = options.positional;
+  if (!id) throw new UsageError("use needs an executor ID or selector");
+  const result = await request<{ executorId: string }>("POST", `/executors/${encodeURIComponent(id)}/default`);
+  print(options, result, () => `Default executor: ${result.executorId}`);
+}
+
+async function tools(options: Options): Promise<void> {
+  const catalogue = await request<Tool[]>("GET", "/tools");
+  print(options, catalogue, () =>
+    catalogue.map((tool) => `${tool.name.padEnd(28)} ${tool.description?.split("\n")[0] ?? ""}`).join("\n")
+  );
+}
+
+// Prints until the server closes the stream or the process is interrupted
+async function tail(options: Options): Promise<void> {
+  const query = options.level ? `?level=${encodeURIComponent(options.level)}` : "";
+  const res = await adminFetch("GET", `/tail${query}`);
+  if (!res.body) return;
+
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+    buffered += decoder.decode(chunk, { stream: true });
+    let end: number;
+    while ((end = buffered.indexOf("\n\n")) !== -1) {
+      const message = buffered.slice(0, end);
+      buffered = buffered.slice(end + 2);
+      printTailMessage(options, message);
+    }
+  }
+}
+
+function printTailMessage(options: Options, message: string): void {
+  let event = "";
+  let data = "";
+  for (const line of message.split("\n")) {
+    if (line.startsWith("event: ")) event = line.slice("event: ".length);
+    else if (line.startsWith("data: ")) data += line.slice("data: ".length);
+  }
+  // Comments such as keepalives have no data
+  if (!data) return;
+
+  const payload = JSON.parse(data);
+  if (options.json) {
+    console.log(JSON.stringify({ type: event, ...payload }));
+  } else if (event === "log") {
+    const details = payload.data === undefined ? "" : ` ${JSON.stringify(payload.data)}`;
+    console.log(`[${payload.time}] [${payload.level.toUpperCase().padEnd(5)}] [${payload.logger}] ${payload.message}${details}`);
+  } else {
+    const time = new Date(payload.timestamp).toISOString();
+    const details = payload.data === undefined ? "" : ` ${JSON.stringify(payload.data)}`;
+    console.log(`[${time}] [EVENT] [${payload.executorId}] ${payload.event}${details}`);
+  }
+}
+
+const COMMANDS: Record<string, (options: Options) => Promise<void>> = {
+  executors,
+  exec,
+  screenshot,
+  use,
+  tail,
+  tools,
+};
+
+export async function clientCli(args: string[]): Promise<number> {
+  let options: Options | undefined;
+  try {
+    options = parseArgs(args);
+    const command = COMMANDS[options.positional[0]];
+    if (!command) throw new UsageError(options.positional[0] ? `Unknown command ${options.positional[0]}` : "");
+    await command(options);
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError) {
+      if (err.message) console.error(`Error: ${err.message}`);
+      console.error(USAGE);
+      return 2;
+    }
+    const code = err instanceof AdminError ? err.code : undefined;
+    const message = err instanceof Error ? err.message : String(err);
+    if (options?.json) {
+      console.log(JSON.stringify({ code: code ?? null, error: message }, null, 2));
+    } else {
+      console.error(`Error${code ? ` [${code}]` : ""}: ${message}`);
+    }
+    return exitCode(code);
+  }
+}
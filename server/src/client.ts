@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+
+// wire-agent: command-line client for a running server (see cli/client.ts)
+import { clientCli } from "./cli/client";
+
+clientCli(process.argv.slice(2)).then((code) => process.exit(code));
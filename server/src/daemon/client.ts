@@ -0,0 +1,82 @@
+import { spawn } from "child_process";
+import net from "net";
+import path from "path";
+import { daemonLogger as log } from "../utils/logger";
+import { DAEMON_SOCKET, STATE_DIR, connectDaemon } from "./socket";
+
+// ============================================================
+// Thin stdio entry point: relays MCP between stdin/stdout and
+// the daemon, starting the daemon if none is running
+// ============================================================
+
+const DAEMON_START_TIMEOUT = 10000; // 10 seconds
+const DAEMON_POLL_INTERVAL = 100;
+
+function isNotListening(err: unknown): boolean {
+  const code = (err as NodeJS.ErrnoException).code;
+  return code === "ENOENT" || code === "ECONNREFUSED";
+}
+
+// Same entry point and runtime flags (e.g. tsx in development), detached so
+// it outlives this client. Its logs go to a file as nobody reads its stderr.
+function spawnDaemon(): void {
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], "daemon"], {
+    detached: true,
+    stdio: "ignore",
+    env: {
+      ...process.env,
+      LOG_FILE: process.env.LOG_FILE || path.join(STATE_DIR, "daemon.log"),
+    },
+  });
+  child.unref();
+  log.info(`Started daemon (pid ${child.pid})`);
+}
+
+async function connectOrStart(socketPath: string): Promise<net.Socket> {
+  try {
+    return await connectDaemon(socketPath);
+  } catch (err) {
+    if (!isNotListening(err)) throw err;
+  }
+
+  log.info("No daemon running, starting one");
+  spawnDaemon();
+
+  // Another client may start one at the same time; whichever binds wins
+  const deadline = Date.now() + DAEMON_START_TIMEOUT;
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, DAEMON_POLL_INTERVAL));
+    try {
+      return await connectDaemon(socketPath);
+    } catch (err) {
+      if (!isNotListening(err) || Date.now() > deadline) {
+        throw new Error(`Daemon did not start on ${socketPath}: ${(err as Error).message}`);
+      }
+    }
+  }
+}
+
+export async function runDaemonClient(socketPath = DAEMON_SOCKET): Promise<void> {
+  const socket = await connectOrStart(socketPath);
+  log.info(`Connected to daemon at ${socketPath}`);
+
+  let stdinEnded = false;
+  process.stdin.on("end", () => {
+    stdinEnded = true;
+  });
+
+  // Ending stdin ends the socket, which ends the daemon's session
+  process.stdin.pipe(socket);
+  socket.pipe(process.stdout);
+
+  socket.on("error", (err) => {
+    log.error("Daemon connection error", err);
+  });
+
+  socket.on("close", () => {
+    if (!stdinEnded) {
+      log.error("Daemon closed the connection");
+    }
+    process.exit(stdinEnded ? 0 : 1);
+  });
+}
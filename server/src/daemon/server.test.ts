@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+
+vi.mock("../executor/manager", async () => {
+  const { EventEmitter } = await import("events");
+  return {
+    EXECUTORS_CHANGED: "executorsChanged",
+    MAX_COMMAND_TIMEOUT: 24 * 60 * 60 * 1000,
+    executorManager: Object.assign(new EventEmitter(), { capabilities: () => new Set<string>() }),
+  };
+});
+
+import { startDaemon, stopDaemon } from "./server";
+import { connectDaemon } from "./socket";
+
+// Sends one JSON-RPC request over the daemon socket and reads the reply
+function rpc(socket: net.Socket, id: number, method: string, params: unknown = {}): Promise<any> {
+  return new Promise((resolve) => {
+    let buffer = "";
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString();
+      for (const line of buffer.split("\n").slice(0, -1)) {
+        const message = JSON.parse(line);
+        if (message.id === id) {
+          socket.off("data", onData);
+          resolve(message);
+        }
+      }
+    };
+    socket.on("data", onData);
+    socket.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }) + "\n");
+  });
+}
+
+const initialize = (socket: net.Socket) =>
+  rpc(socket, 1, "initialize", {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  });
+
+describe.skipIf(process.platform === "win32")("daemon", () => {
+  let dir: string;
+  let socketPath: string;
+
+  beforeEach(() => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wire-agent-daemon-"));
+    socketPath = path.join(dir, "daemon.sock");
+  });
+
+  afterEach(() => {
+    stopDaemon();
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should serve several MCP clients at once", async () => {
+    await startDaemon(socketPath);
+    const first = await connectDaemon(socketPath);
+    const second = await connectDaemon(socketPath);
+
+    const [a, b] = await Promise.all([initialize(first), initialize(second)]);
+    expect(a.result.serverInfo.name).toBe("wire-agent");
+    expect(b.result.serverInfo.name).toBe("wire-agent");
+
+    const tools = await rpc(second, 2, "tools/list");
+    expect(tools.result.tools.map((t: { name: string }) => t.name)).toContain("executor_list");
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it("should not show one client the logs of another", async () => {
+    await startDaemon(socketPath);
+    const first = await connectDaemon(socketPath);
+    const second = await connectDaemon(socketPath);
+    const received = (socket: net.Socket) => {
+      const chunks: string[] = [];
+      socket.on("data", (chunk) => chunks.push(chunk.toString()));
+      return chunks;
+    };
+    const firstReceived = received(first);
+    const secondReceived = received(second);
+    await Promise.all([initialize(first), initialize(second)]);
+    await rpc(first, 2, "logging/setLevel", { level: "debug" });
+    await rpc(second, 2, "logging/setLevel", { level: "debug" });
+
+    await rpc(first, 3, "tools/call", { name: "no_such_tool", arguments: { text: "hunter2" } });
+    // Anything sent to the second client before its reply has arrived by now
+    await rpc(second, 3, "ping");
+
+    expect(firstReceived.join("")).toContain("Tool call: no_such_tool");
+    expect(secondReceived.join("")).not.toContain("hunter2");
+    first.destroy();
+    second.destroy();
+  });
+
+  it("should only let the owner connect", async () => {
+    await startDaemon(socketPath);
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it("should replace a stale socket file", async () => {
+    const stale = net.createServer();
+    await new Promise<void>((resolve) => stale.listen(socketPath, resolve));
+    // Simulate a crash: the file stays but nothing listens
+    stale.close();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    fs.closeSync(fs.openSync(socketPath, "a"));
+
+    await startDaemon(socketPath);
+    const socket = await connectDaemon(socketPath);
+    expect((await initialize(socket)).result).toBeDefined();
+    socket.destroy();
+  });
+
+  it("should refuse to start when another daemon is running", async () => {
+    const other = net.createServer();
+    await new Promise<void>((resolve) => other.listen(socketPath, resolve));
+
+    await expect(startDaemon(socketPath)).rejects.toThrow("Another daemon");
+    other.close();
+  });
+
+  it("should remove the socket file when stopped", async () => {
+    await startDaemon(socketPath);
+    stopDaemon();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import net from "net";
+import fs from "fs";
+import path from "path";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createMcpServer } from "../mcp/server";
+import { daemonLogger as log } from "../utils/logger";
+import { DAEMON_SOCKET, isDaemonRunning } from "./socket";
+
+// ============================================================
+// Daemon: one MCP server per client connection, all sharing
+// this process's WebSocket server and ExecutorManager
+// ============================================================
+
+let daemon: net.Server | null = null;
+const clients = new Set<net.Socket>();
+let nextClientId = 1;
+
+function serveClient(socket: net.Socket): void {
+  const clientId = nextClientId++;
+  const server = createMcpServer();
+
+  // Newline-delimited JSON-RPC, the same framing as stdio
+  const transport = new StdioServerTransport(socket, socket);
+  clients.add(socket);
+
+  socket.on("error", (err) => {
+    log.warn(`Client ${clientId} socket error`, err);
+  });
+
+  socket.on("close", () => {
+    clients.delete(socket);
+    log.info(`Client ${clientId} disconnected`);
+    server.close().catch((err) => log.error(`Failed to close MCP server for client ${clientId}`, err));
+  });
+
+  server
+    .connect(transport)
+    .then(() => log.info(`Client ${clientId} connected`))
+    .catch((err) => {
+      log.error(`Failed to start MCP server for client ${clientId}`, err);
+      socket.destroy();
+    });
+}
+
+function listen(server: net.Server, socketPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+export async function startDaemon(socketPath = DAEMON_SOCKET): Promise<net.Server> {
+  if (daemon) return daemon;
+
+  const isPipe = process.platform === "win32";
+  if (!isPipe) {
+    fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+  }
+
+  const server = net.createServer(serveClient);
+  try {
+    await listen(server, socketPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EADDRINUSE") throw err;
+    if (await isDaemonRunning(socketPath)) {
+      throw new Error(`Another daemon is already listening on ${socketPath}`);
+    }
+    // Left behind by a daemon that did not shut down cleanly
+    log.warn(`Removing stale socket ${socketPath}`);
+    fs.unlinkSync(socketPath);
+    await listen(server, socketPath);
+  }
+
+  // Any process that can connect can run tools
+  if (!isPipe) {
+    fs.chmodSync(socketPath, 0o600);
+  }
+
+  server.on("error", (err) => {
+    log.error("Daemon socket error", err);
+  });
+
+  daemon = server;
+  log.info(`Daemon listening on ${socketPath}`);
+  return server;
+}
+
+export function stopDaemon(): void {
+  if (daemon) {
+    log.info("Stopping daemon");
+    // Also removes the socket file
+    daemon.close();
+    daemon = null;
+    for (const socket of clients) socket.destroy();
+  }
+}
@@ -0,0 +1,34 @@
+import net from "net";
+import os from "os";
+import path from "path";
+
+// ============================================================
+// Where the daemon listens for MCP clients
+// ============================================================
+
+export const STATE_DIR = path.join(os.homedir(), ".wire-agent");
+
+export const DAEMON_SOCKET = process.env.WIRE_AGENT_DAEMON_SOCKET ||
+  (process.platform === "win32" ? "\\\\.\\pipe\\wire-agent" : path.join(STATE_DIR, "daemon.sock"));
+
+export function connectDaemon(socketPath: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    socket.once("connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+}
+
+// True when something accepts connections on the socket
+export async function isDaemonRunning(socketPath: string): Promise<boolean> {
+  try {
+    const socket = await connectDaemon(socketPath);
+    socket.destroy();
+    return true;
+  } catch {
+    return false;
+  }
+}
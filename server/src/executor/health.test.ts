@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { createHealthThresholds, DEFAULT_HEALTH_THRESHOLDS, healthOf, parseHealthThresholds } from "./health";
+
+describe("health", () => {
+  const thresholds = DEFAULT_HEALTH_THRESHOLDS;
+
+  it("should derive the state from silence and ping latency", () => {
+    expect(healthOf(0, undefined, thresholds)).toBe("healthy");
+    expect(healthOf(29999, 2000, thresholds)).toBe("healthy");
+    expect(healthOf(1000, 2001, thresholds)).toBe("degraded");
+    expect(healthOf(30000, 10, thresholds)).toBe("degraded");
+    expect(healthOf(45000, 10, thresholds)).toBe("unresponsive");
+    expect(healthOf(90000, undefined, thresholds)).toBe("evicted");
+  });
+
+  it("should override defaults from configuration", () => {
+    expect(parseHealthThresholds('{"unresponsiveAfterMs": 30000, "evictAfterMs": 60000}')).toEqual({
+      ...DEFAULT_HEALTH_THRESHOLDS,
+      unresponsiveAfterMs: 30000,
+      evictAfterMs: 60000,
+    });
+  });
+
+  it("should reject invalid configurations", () => {
+    expect(() => parseHealthThresholds("{")).toThrow("Invalid health configuration");
+    expect(() => parseHealthThresholds("[]")).toThrow("must be an object");
+    expect(() => createHealthThresholds({ evictAfterMs: 0 })).toThrow("evictAfterMs must be a positive number");
+    expect(() => parseHealthThresholds('{"timeoutMs": 1000}')).toThrow('Unknown health threshold "timeoutMs"');
+    expect(() => createHealthThresholds({ unresponsiveAfterMs: 100000 }))
+      .toThrow("degradedAfterMs <= unresponsiveAfterMs <= evictAfterMs, got 30000, 100000 and 90000");
+  });
+});
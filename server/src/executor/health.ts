@@ -0,0 +1,79 @@
+import type { ExecutorHealth } from "@wire-agent/protocol";
+
+// ============================================================
+// Executor health: how long an executor has been silent decides its state
+// ============================================================
+
+export interface HealthThresholds {
+  // How often every executor is pinged
+  pingIntervalMs: number;
+  // Silence after which an executor is degraded
+  degradedAfterMs: number;
+  // Ping round trip above which an executor is degraded
+  degradedLatencyMs: number;
+  // Silence after which commands to the executor fail right away
+  unresponsiveAfterMs: number;
+  // Silence after which the executor is evicted
+  evictAfterMs: number;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  pingIntervalMs: 15000, // 15 seconds
+  degradedAfterMs: 30000, // one missed ping
+  degradedLatencyMs: 2000,
+  unresponsiveAfterMs: 45000, // 45 seconds (3 missed heartbeats)
+  evictAfterMs: 90000,
+};
+
+export class HealthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HealthConfigError";
+  }
+}
+
+// Defaults overridden by the given thresholds; throws HealthConfigError for
+// unknown keys, non-positive values, or silences out of order
+export function createHealthThresholds(overrides: Partial<HealthThresholds> = {}): HealthThresholds {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in DEFAULT_HEALTH_THRESHOLDS)) {
+      throw new HealthConfigError(`Unknown health threshold "${key}"`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      throw new HealthConfigError(`Health threshold ${key} must be a positive number of milliseconds`);
+    }
+  }
+
+  const thresholds = { ...DEFAULT_HEALTH_THRESHOLDS, ...overrides };
+  const { degradedAfterMs, unresponsiveAfterMs, evictAfterMs } = thresholds;
+  if (!(degradedAfterMs <= unresponsiveAfterMs && unresponsiveAfterMs <= evictAfterMs)) {
+    throw new HealthConfigError(
+      `Health thresholds must satisfy degradedAfterMs <= unresponsiveAfterMs <= evictAfterMs, ` +
+      `got ${degradedAfterMs}, ${unresponsiveAfterMs} and ${evictAfterMs}`
+    );
+  }
+  return thresholds;
+}
+
+// WIRE_AGENT_HEALTH: {"unresponsiveAfterMs": 30000, "evictAfterMs": 60000}
+export function parseHealthThresholds(json: string): HealthThresholds {
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch (err) {
+    throw new HealthConfigError(`Invalid health configuration: ${(err as Error).message}`);
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new HealthConfigError("Health configuration must be an object of thresholds");
+  }
+  return createHealthThresholds(config as Partial<HealthThresholds>);
+}
+
+export function healthOf(silentMs: number, pingLatencyMs: number | undefined, thresholds: HealthThresholds): ExecutorHealth {
+  if (silentMs >= thresholds.evictAfterMs) return "evicted";
+  if (silentMs >= thresholds.unresponsiveAfterMs) return "unresponsive";
+  if (silentMs >= thresholds.degradedAfterMs || (pingLatencyMs ?? 0) > thresholds.degradedLatencyMs) {
+    return "degraded";
+  }
+  return "healthy";
+}
@@ -1,7 +1,11 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { WebSocket } from "ws";
-import { ExecutorManager } from "./manager";
-import type { ExecutorRegister, ExecuteResult } from "@wire-agent/protocol";
+import { ExecutorManager, EXECUTORS_CHANGED, EXECUTOR_HEALTH_CHANGED } from "./manager";
+import { createHealthThresholds } from "./health";
+import { commandDuration, commandsTotal, commandTimeouts } from "../metrics/metrics";
+import { Policy } from "../policy/policy";
+import { auditLog } from "../audit/log";
+import { PROTOCOL_VERSION, type ExecutorRegister, type ExecuteResult } from "@wire-agent/protocol";
 
 // Mock the logger
 vi.mock("../utils/logger", () => ({
@@ -13,6 +17,13 @@ vi.mock("../utils/logger", () => ({
   },
 }));
 
+// Messages sent to an executor, without the welcome
+function commands(ws: WebSocket): any[] {
+  return (ws.send as any).mock.calls
+    .map(([data]: [string]) => JSON.parse(data))
+    .filter((message: { type: string }) => message.type !== "welcome");
+}
+
 describe("ExecutorManager", () => {
   let manager: ExecutorManager;
   let mockWs: WebSocket;
@@ -22,6 +33,7 @@ describe("ExecutorManager", () => {
     mockWs = {
       send: vi.fn(),
       close: vi.fn(),
+      terminate: vi.fn(),
       readyState: WebSocket.OPEN,
     } as unknown as WebSocket;
   });
@@ -122,6 +134,311 @@ describe("ExecutorManager", () => {
       manager.unregister("executor-1");
       expect(manager.getDefault()).toBe("executor-2");
     });
+
+    it("should drop leases and session defaults on the executor", async () => {
+      const register = (executorId: string) =>
+        manager.register(mockWs, { type: "register", executorId, platform: "desktop", capabilities: ["shellExec"], meta: {} });
+      register("laptop");
+      register("desktop");
+      expect(manager.acquire("desktop", { id: "session-1" }).ok).toBe(true);
+      expect(manager.getDefault("session-1")).toBe("desktop");
+
+      manager.unregister("desktop");
+      register("desktop");
+
+      expect(manager.getLease("desktop")).toBeUndefined();
+      expect(manager.getDefault("session-1")).toBe("laptop");
+      const result = manager.execute("shellExec", {}, "desktop", { session: { id: "session-2" } });
+      expect(commands(mockWs)).toHaveLength(1);
+      manager.handleResult(mockWs, { type: "result", id: commands(mockWs)[0].id, success: true });
+      expect((await result).success).toBe(true);
+    });
+  });
+
+  describe("resume", () => {
+    const info: ExecutorRegister = {
+      type: "register",
+      executorId: "desktop",
+      platform: "desktop",
+      capabilities: ["shellExec"],
+      meta: {},
+    };
+    const welcome = (ws: WebSocket) =>
+      (ws.send as any).mock.calls.map(([data]: [string]) => JSON.parse(data)).find((m: { type: string }) => m.type === "welcome");
+    const reconnect = (resumeToken?: string) => {
+      const ws = { send: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+      manager.register(ws, { ...info, resumeToken });
+      return ws;
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      manager.register(mockWs, info);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should welcome executors with a resume token and the server's settings", () => {
+      manager.register(mockWs, { ...info, executorId: "legacy" }, 1);
+
+      expect(welcome(mockWs)).toEqual({
+        type: "welcome",
+        protocolVersion: PROTOCOL_VERSION,
+        executorId: "desktop",
+        resumeToken: expect.any(String),
+        resumed: false,
+        heartbeatIntervalMs: 15000,
+        limits: { requestTimeoutMs: 30000, heartbeatTimeoutMs: 45000, resumeGraceMs: 30000, eventBufferSize: 500, maxMessageBytes: 100 * 1024 * 1024 },
+      });
+      expect(manager.list().map((e) => e.protocolVersion)).toEqual([PROTOCOL_VERSION, 1]);
+    });
+
+    it("should deliver results of pending requests after a resume", async () => {
+      const executePromise = manager.execute("shellExec", { command: "make" });
+      const { id } = commands(mockWs)[0];
+      manager.disconnect(mockWs);
+      vi.advanceTimersByTime(10000);
+
+      const ws = reconnect(welcome(mockWs).resumeToken);
+      manager.handleResult(ws, { type: "result", id, success: true, data: { stdout: "done" } });
+
+      expect(welcome(ws)).toMatchObject({ resumed: true });
+      expect((await executePromise).data).toEqual({ stdout: "done" });
+    });
+
+    it("should keep defaults and leases while waiting for the executor", () => {
+      const session = { id: "session-1" };
+      manager.acquire("desktop", session);
+      manager.disconnect(mockWs);
+
+      expect(manager.list()[0]).toMatchObject({ health: "unresponsive", disconnectedAt: Date.now() });
+      reconnect(welcome(mockWs).resumeToken);
+
+      expect(manager.list()[0]).toMatchObject({ health: "healthy", disconnectedAt: undefined });
+      expect(manager.getDefault(session.id)).toBe("desktop");
+      expect(manager.getLease("desktop")?.sessionId).toBe(session.id);
+    });
+
+    it("should fail commands sent while the executor is disconnected", async () => {
+      manager.disconnect(mockWs);
+
+      const result = await manager.execute("shellExec", { command: "make" });
+
+      expect(result.code).toBe("EXECUTOR_DISCONNECTED");
+      expect(commands(mockWs)).toHaveLength(0);
+    });
+
+    it("should forget the executor when the grace period ends", async () => {
+      const executePromise = manager.execute("shellExec", { command: "make" }, undefined, { timeoutMs: 60000 });
+      manager.disconnect(mockWs);
+      vi.advanceTimersByTime(30000);
+
+      expect((await executePromise).code).toBe("EXECUTOR_DISCONNECTED");
+      expect(manager.list()).toHaveLength(0);
+    });
+
+    it("should register anew without a valid resume token", async () => {
+      const executePromise = manager.execute("shellExec", { command: "make" });
+      manager.disconnect(mockWs);
+
+      const ws = reconnect("stale");
+
+      expect((await executePromise).code).toBe("EXECUTOR_DISCONNECTED");
+      expect(welcome(ws)).toMatchObject({ resumed: false });
+      expect(welcome(ws).resumeToken).not.toBe(welcome(mockWs).resumeToken);
+    });
+  });
+
+  describe("health", () => {
+    const info: ExecutorRegister = {
+      type: "register",
+      executorId: "desktop",
+      platform: "desktop",
+      capabilities: ["shellExec"],
+      meta: {},
+    };
+    const pings = (ws: WebSocket) => commands(ws).filter((m) => m.type === "control" && m.action === "ping");
+    const pong = () => manager.handleMessage(mockWs, { type: "pong", executorId: "desktop", timestamp: Date.now() });
+    let changes: string[];
+
+    beforeEach(() => {
+      // The heartbeat has to run on fake timers
+      manager.stopHeartbeat();
+      vi.useFakeTimers();
+      manager = new ExecutorManager();
+      manager.register(mockWs, info);
+      changes = [];
+      manager.on(EXECUTOR_HEALTH_CHANGED, (id, health, previous) => changes.push(`${id}: ${previous} -> ${health}`));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should ping every interval and track the round trip", () => {
+      vi.advanceTimersByTime(15000);
+      expect(pings(mockWs)).toHaveLength(1);
+
+      vi.advanceTimersByTime(250);
+      pong();
+
+      expect(manager.list()[0]).toMatchObject({ health: "healthy", pingLatencyMs: 250 });
+      vi.advanceTimersByTime(14750);
+      expect(pings(mockWs)).toHaveLength(2);
+    });
+
+    it("should degrade executors that answer pings slowly", () => {
+      vi.advanceTimersByTime(15000);
+      vi.advanceTimersByTime(3000);
+      pong();
+      expect(manager.list()[0].health).toBe("degraded");
+
+      vi.advanceTimersByTime(12000);
+      vi.advanceTimersByTime(100);
+      pong();
+
+      expect(manager.list()[0]).toMatchObject({ health: "healthy", pingLatencyMs: 100 });
+      expect(changes).toEqual(["desktop: healthy -> degraded", "desktop: degraded -> healthy"]);
+    });
+
+    it("should go from degraded to unresponsive to evicted while silent", async () => {
+      const pending = manager.execute("shellExec", { command: "make" }, undefined, { timeoutMs: 120000 });
+
+      vi.advanceTimersByTime(30000);
+      expect(manager.list()[0].health).toBe("degraded");
+      vi.advanceTimersByTime(15000);
+      expect(manager.list()[0].health).toBe("unresponsive");
+
+      vi.advanceTimersByTime(45000);
+
+      expect(changes).toEqual([
+        "desktop: healthy -> degraded",
+        "desktop: degraded -> unresponsive",
+        "desktop: unresponsive -> evicted",
+      ]);
+      expect(await pending).toMatchObject({
+        success: false,
+        code: "EXECUTOR_DISCONNECTED",
+        error: "Executor evicted after 90s without a sign of life",
+      });
+      expect(mockWs.terminate).toHaveBeenCalled();
+      expect(manager.list()).toHaveLength(0);
+    });
+
+    it("should fail commands to unresponsive executors right away", async () => {
+      vi.advanceTimersByTime(45000);
+
+      const result = await manager.execute("shellExec", { command: "make" });
+
+      expect(result).toMatchObject({
+        code: "EXECUTOR_DISCONNECTED",
+        error: "Executor desktop is unresponsive, no sign of life for 45s",
+      });
+      expect(commands(mockWs).filter((m) => m.type === "execute")).toHaveLength(0);
+    });
+
+    it("should recover when the executor speaks again", () => {
+      vi.advanceTimersByTime(45000);
+      manager.handleMessage(mockWs, { type: "state", executorId: "desktop", meta: { activeWindow: "Terminal" } });
+
+      expect(manager.list()[0].health).toBe("healthy");
+      expect(changes.at(-1)).toBe("desktop: unresponsive -> healthy");
+    });
+
+    it("should not count commands sent to the executor as signs of life", () => {
+      vi.advanceTimersByTime(20000);
+      manager.execute("shellExec", { command: "make" }, undefined, { timeoutMs: 120000 });
+      vi.advanceTimersByTime(25000);
+
+      expect(manager.list()[0].health).toBe("unresponsive");
+    });
+
+    it("should keep every executor on a socket alive with one executor's pongs", () => {
+      manager.register(mockWs, { ...info, executorId: "desktop:window:1" });
+
+      for (let i = 0; i < 6; i++) {
+        vi.advanceTimersByTime(15000);
+        pong();
+      }
+
+      expect(manager.list().map((e) => [e.executorId, e.health])).toEqual([
+        ["desktop", "healthy"],
+        ["desktop:window:1", "healthy"],
+      ]);
+      expect(mockWs.terminate).not.toHaveBeenCalled();
+    });
+
+    it("should keep a socket open while another executor on it is alive", () => {
+      manager.register(mockWs, { ...info, executorId: "desktop:window:1" });
+      // Only reachable through executors that share the socket but fell silent
+      vi.advanceTimersByTime(60000);
+      manager.handleMessage(mockWs, { type: "state", executorId: "desktop", meta: {} });
+      (manager as any).executors.get("desktop:window:1").lastActiveAt = Date.now() - 90000;
+
+      vi.advanceTimersByTime(15000);
+
+      expect(manager.list().map((e) => e.executorId)).toEqual(["desktop"]);
+      expect(mockWs.terminate).not.toHaveBeenCalled();
+    });
+
+    it("should use configured thresholds", () => {
+      manager.setHealthThresholds(createHealthThresholds({
+        pingIntervalMs: 1000,
+        degradedAfterMs: 2000,
+        unresponsiveAfterMs: 3000,
+        evictAfterMs: 5000,
+      }));
+      manager.register(mockWs, { ...info, executorId: "other" });
+
+      expect(JSON.parse((mockWs.send as any).mock.calls.at(-1)[0])).toMatchObject({
+        heartbeatIntervalMs: 1000,
+        limits: { heartbeatTimeoutMs: 3000 },
+      });
+      vi.advanceTimersByTime(5000);
+      expect(manager.list()).toHaveLength(0);
+    });
+  });
+
+  describe("capabilities", () => {
+    it("should return the union of executor capabilities", () => {
+      const ws1 = { send: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+      const ws2 = { send: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+
+      manager.register(ws1, {
+        type: "register",
+        executorId: "browser",
+        platform: "browser",
+        capabilities: ["click", "screenshot"],
+        meta: {},
+      });
+      manager.register(ws2, {
+        type: "register",
+        executorId: "desktop",
+        platform: "desktop",
+        capabilities: ["mouseClick", "screenshot"],
+        meta: {},
+      });
+
+      expect([...manager.capabilities()].sort()).toEqual(["click", "mouseClick", "screenshot"]);
+    });
+
+    it("should emit a change event on register and unregister", () => {
+      const listener = vi.fn();
+      manager.on(EXECUTORS_CHANGED, listener);
+
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "test-executor",
+        platform: "browser",
+        capabilities: [],
+        meta: {},
+      });
+      manager.unregister("test-executor");
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe("setDefault", () => {
@@ -160,6 +477,7 @@ describe("ExecutorManager", () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toBe("No executor connected");
+      expect(result.code).toBe("EXECUTOR_NOT_FOUND");
     });
 
     it("should return error for non-existent executor ID", async () => {
@@ -169,6 +487,16 @@ describe("ExecutorManager", () => {
       expect(result.error).toBe("Executor not found: non-existent");
     });
 
+    it.each([0, -1, 2.5, Infinity, NaN, 1e12])("should reject a timeoutMs of %d", async (timeoutMs) => {
+      manager.register(mockWs, { type: "register", executorId: "test-executor", platform: "browser", capabilities: ["click"], meta: {} });
+
+      const result = await manager.execute("click", { selector: "button" }, undefined, { timeoutMs });
+
+      expect(result).toMatchObject({ success: false, code: "INVALID_PARAMS" });
+      expect(result.error).toContain("timeoutMs must be an integer from 1 to 86400000");
+      expect(commands(mockWs)).toHaveLength(0);
+    });
+
     it("should send command to executor", async () => {
       manager.register(mockWs, {
         type: "register",
@@ -182,20 +510,589 @@ describe("ExecutorManager", () => {
       const executePromise = manager.execute("click", { selector: "button" });
 
       // Simulate response
-      const sentData = JSON.parse((mockWs.send as any).mock.calls[0][0]);
+      const sentData = commands(mockWs)[0];
+      expect(sentData).toMatchObject({ type: "execute", executorId: "test-executor", action: "click" });
       const result: ExecuteResult = {
         type: "result",
         id: sentData.id,
         success: true,
       };
-      manager.handleResult(result);
+      manager.handleResult(mockWs, result);
 
       const executeResult = await executePromise;
       expect(executeResult.success).toBe(true);
     });
   });
 
+  describe("error codes", () => {
+    beforeEach(() => {
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "test-executor",
+        platform: "browser",
+        capabilities: ["click"],
+        meta: {},
+      });
+    });
+
+    it("should fail pending requests when the executor disconnects", async () => {
+      const executePromise = manager.execute("click", { selector: "button" });
+      manager.unregister("test-executor");
+
+      const result = await executePromise;
+      expect(result.success).toBe(false);
+      expect(result.code).toBe("EXECUTOR_DISCONNECTED");
+    });
+
+    it("should report timeouts with the TIMEOUT code", async () => {
+      vi.useFakeTimers();
+      try {
+        const executePromise = manager.execute("click", { selector: "button" });
+        vi.advanceTimersByTime(30000);
+
+        const result = await executePromise;
+        expect(result.code).toBe("TIMEOUT");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should count commands by outcome, timeouts and round trips", async () => {
+      vi.useFakeTimers();
+      const before = {
+        ok: commandsTotal.get({ action: "click", outcome: "ok" }),
+        timeout: commandsTotal.get({ action: "click", outcome: "TIMEOUT" }),
+        timeouts: commandTimeouts.get({ action: "click", executor: "test-executor" }),
+      };
+      try {
+        const answered = manager.execute("click", { selector: "button" });
+        vi.advanceTimersByTime(40);
+        manager.handleResult(mockWs, { type: "result", id: commands(mockWs)[0].id, success: true });
+        await answered;
+        const unanswered = manager.execute("click", { selector: "button" });
+        vi.advanceTimersByTime(30000);
+        await unanswered;
+
+        expect(commandsTotal.get({ action: "click", outcome: "ok" })).toBe(before.ok + 1);
+        expect(commandsTotal.get({ action: "click", outcome: "TIMEOUT" })).toBe(before.timeout + 1);
+        expect(commandTimeouts.get({ action: "click", executor: "test-executor" })).toBe(before.timeouts + 1);
+        expect(commandDuration.render().join("\n")).toContain(
+          'wire_agent_command_duration_seconds_bucket{action="click",executor="test-executor",le="0.05"}'
+        );
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should drop the series of executors that unregister", async () => {
+      const answered = manager.execute("click", { selector: "button" });
+      manager.handleResult(mockWs, { type: "result", id: commands(mockWs)[0].id, success: true });
+      await answered;
+      expect(commandDuration.render().join("\n")).toContain('executor="test-executor"');
+
+      manager.unregister("test-executor");
+
+      expect(commandDuration.render().join("\n")).not.toContain('executor="test-executor"');
+      expect(commandTimeouts.get({ action: "click", executor: "test-executor" })).toBe(0);
+    });
+  });
+
+  describe("policy", () => {
+    beforeEach(() => {
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "test-executor",
+        platform: "desktop",
+        capabilities: ["shellExec"],
+        meta: {},
+      });
+    });
+
+    it("should block denied commands without dispatching them", async () => {
+      manager.setPolicy(new Policy({ rules: [{ id: "no-shell", effect: "deny", actions: ["shellExec"] }] }));
+
+      const result = await manager.execute("shellExec", { command: "id" });
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBe("PERMISSION_DENIED");
+      expect(result.error).toBe('Denied by policy rule "no-shell"');
+      expect(result.data).toEqual({ rule: "no-shell" });
+      expect(commands(mockWs)).toHaveLength(0);
+    });
+
+    it("should dispatch allowed commands", () => {
+      manager.setPolicy(new Policy({ default: "deny", rules: [{ effect: "allow", actions: ["click"] }] }));
+
+      manager.execute("click", { selector: "button" });
+
+      expect(commands(mockWs)).not.toHaveLength(0);
+    });
+  });
+
+  describe("selectors", () => {
+    beforeEach(() => {
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "browser:tab:1",
+        platform: "browser",
+        capabilities: ["click"],
+        meta: { url: "https://github.com/" },
+      });
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "browser:tab:2",
+        platform: "browser",
+        capabilities: ["click"],
+        meta: { url: "https://example.com/" },
+        tags: ["staging"],
+      });
+    });
+
+    it("should resolve exact ids and selectors matching one executor", () => {
+      expect(manager.resolve("browser:tab:1")).toEqual({ ok: true, executorId: "browser:tab:1" });
+      expect(manager.resolve("platform=browser,url=*github.com*")).toEqual({ ok: true, executorId: "browser:tab:1" });
+      expect(manager.resolve("tag=staging")).toEqual({ ok: true, executorId: "browser:tab:2" });
+    });
+
+    it("should explain selectors that match nothing or several executors", () => {
+      expect(manager.resolve("platform=desktop")).toEqual({
+        ok: false,
+        code: "EXECUTOR_NOT_FOUND",
+        error: 'No executor matches selector "platform=desktop"',
+      });
+      expect(manager.resolve("platform=browser")).toEqual({
+        ok: false,
+        code: "INVALID_PARAMS",
+        error: 'Selector "platform=browser" is ambiguous, it matches 2 executors: browser:tab:1, browser:tab:2',
+      });
+      expect(manager.resolve("url=/(/")).toMatchObject({ ok: false, code: "INVALID_PARAMS" });
+    });
+
+    it("should dispatch commands to the executor a selector picks", async () => {
+      manager.execute("click", { selector: "a" }, "tag=staging");
+      expect(commands(mockWs)).not.toHaveLength(0);
+
+      const result = await manager.execute("click", { selector: "a" }, "platform=browser");
+      expect(result.code).toBe("INVALID_PARAMS");
+    });
+
+    it("should filter events by selector", () => {
+      manager.handleMessage(mockWs, { type: "event", executorId: "browser:tab:1", event: "console", timestamp: 1 });
+      manager.handleMessage(mockWs, { type: "event", executorId: "browser:tab:2", event: "console", timestamp: 2 });
+
+      const { events } = manager.events({ executorId: "tag=staging" });
+      expect(events.map((e) => e.executorId)).toEqual(["browser:tab:2"]);
+    });
+  });
+
+  describe("pools", () => {
+    const sockets = new Map<string, WebSocket>();
+    const register = (executorId: string, tags: string[] = []) => {
+      const ws = { send: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+      sockets.set(executorId, ws);
+      manager.register(ws, { type: "register", executorId, platform: "browser", capabilities: [], meta: {}, tags });
+    };
+    const sentTo = (executorId: string) => commands(sockets.get(executorId)!).length;
+
+    beforeEach(() => {
+      manager.setPools([
+        { name: "workers", selector: "tag=worker" },
+        { name: "loose", selector: "tag=worker", sticky: false },
+      ]);
+      register("w1", ["worker"]);
+      register("w2", ["worker"]);
+      register("other");
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should send commands to the least busy member", () => {
+      manager.execute("click", {}, "pool=loose");
+      manager.execute("click", {}, "pool=loose");
+      manager.execute("click", {}, "pool=loose");
+
+      expect(sentTo("w1")).toBe(2);
+      expect(sentTo("w2")).toBe(1);
+      expect(sentTo("other")).toBe(0);
+    });
+
+    it("should keep a session on the same member", () => {
+      const session = { id: "session-1" };
+      manager.execute("click", {}, "pool=workers", { session });
+      manager.execute("click", {}, "pool=workers", { session });
+      manager.execute("click", {}, "pool=workers", { session: { id: "session-2" } });
+
+      expect(sentTo("w1")).toBe(2);
+      expect(sentTo("w2")).toBe(1);
+    });
+
+    it("should skip members leased by other sessions", () => {
+      manager.acquire("w1", { id: "session-1" });
+
+      expect(manager.resolve("pool=workers", "session-2")).toEqual({ ok: true, executorId: "w2" });
+      manager.acquire("w2", { id: "session-1" });
+      expect(manager.resolve("pool=workers", "session-2")).toMatchObject({ ok: false, code: "EXECUTOR_NOT_FOUND" });
+    });
+
+    it("should skip unresponsive members", () => {
+      vi.useFakeTimers();
+      vi.advanceTimersByTime(60000);
+      manager.handleMessage(sockets.get("w2")!, { type: "pong", executorId: "w2", timestamp: Date.now() });
+
+      expect(manager.resolve("pool=loose")).toEqual({ ok: true, executorId: "w2" });
+      expect(manager.list().find((e) => e.executorId === "w1")?.health).toBe("unresponsive");
+    });
+
+    it("should reject unknown pools", () => {
+      expect(manager.resolve("pool=nope")).toMatchObject({ ok: false, code: "INVALID_PARAMS" });
+    });
+
+    it("should report pool status and membership", () => {
+      manager.execute("click", {}, "pool=workers");
+
+      expect(manager.poolStatus()).toEqual([
+        { name: "workers", selector: "tag=worker", sticky: true, members: ["w1", "w2"], healthy: 2, pendingRequests: 1 },
+        { name: "loose", selector: "tag=worker", sticky: false, members: ["w1", "w2"], healthy: 2, pendingRequests: 1 },
+      ]);
+      expect(manager.list().map((e) => e.pools)).toEqual([["workers", "loose"], ["workers", "loose"], []]);
+    });
+
+    it("should track round-trip latency", () => {
+      vi.useFakeTimers();
+      manager.execute("click", {}, "w1");
+      const { id } = commands(sockets.get("w1")!)[0];
+      vi.advanceTimersByTime(120);
+      manager.handleResult(sockets.get("w1")!, { type: "result", id, success: true });
+
+      expect(manager.list()[0].latencyMs).toBe(120);
+    });
+  });
+
+  describe("fanout", () => {
+    const sockets = new Map<string, WebSocket>();
+    const register = (executorId: string, capabilities: string[]) => {
+      const ws = { send: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+      sockets.set(executorId, ws);
+      manager.register(ws, { type: "register", executorId, platform: "desktop", capabilities, meta: {} });
+    };
+    const reply = (executorId: string, data: unknown) => {
+      const { id } = commands(sockets.get(executorId)!)[0];
+      manager.handleResult(sockets.get(executorId)!, { type: "result", id, success: true, data });
+    };
+
+    beforeEach(() => {
+      register("ci-1", ["shellExec"]);
+      register("ci-2", ["shellExec"]);
+      register("kiosk", ["screenshot"]);
+    });
+
+    it("should select every matching executor", () => {
+      expect(manager.select("platform=desktop")).toEqual({ ok: true, executorIds: ["ci-1", "ci-2", "kiosk"] });
+      expect(manager.select("capability=shellExec")).toEqual({ ok: true, executorIds: ["ci-1", "ci-2"] });
+      expect(manager.select("platform=browser")).toMatchObject({ ok: false, code: "EXECUTOR_NOT_FOUND" });
+    });
+
+    it("should dispatch to all executors at once and collect their results", async () => {
+      const onResult = vi.fn();
+      const pending = manager.fanout("shellExec", { command: "uptime" }, ["ci-1", "ci-2", "kiosk"], { onResult });
+
+      // Both commands are out before either answers
+      expect(commands(sockets.get("ci-1")!)).not.toHaveLength(0);
+      expect(commands(sockets.get("ci-2")!)).not.toHaveLength(0);
+      expect(commands(sockets.get("kiosk")!)).toHaveLength(0);
+      reply("ci-2", "up 2 days");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      reply("ci-1", "up 1 day");
+
+      const results = await pending;
+      expect(results.map((r) => [r.executorId, r.result.success, r.result.data ?? r.result.code])).toEqual([
+        ["ci-1", true, "up 1 day"],
+        ["ci-2", true, "up 2 days"],
+        ["kiosk", false, "NOT_SUPPORTED"],
+      ]);
+      expect(onResult.mock.calls.map(([r]) => r.executorId)).toEqual(["kiosk", "ci-2", "ci-1"]);
+    });
+
+    it("should audit executors that do not support the action", async () => {
+      const record = vi.spyOn(auditLog, "record");
+
+      await manager.fanout("screenshot", {}, ["ci-1"]);
+
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: "command", action: "screenshot", executorId: "ci-1", code: "NOT_SUPPORTED" })
+      );
+      record.mockRestore();
+    });
+  });
+
+  describe("sessions and leases", () => {
+    const alice = { id: "session-1", client: "claude-code" };
+    const bob = { id: "session-2" };
+    const register = (executorId: string) =>
+      manager.register(mockWs, { type: "register", executorId, platform: "browser", capabilities: [], meta: {} });
+
+    beforeEach(() => {
+      register("tab-1");
+      register("tab-2");
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should keep default executors per session", () => {
+      manager.setDefault("tab-2", alice.id);
+
+      expect(manager.getDefault(alice.id)).toBe("tab-2");
+      expect(manager.getDefault(bob.id)).toBe("tab-1");
+      expect(manager.getDefault()).toBe("tab-1");
+    });
+
+    it("should reject commands from sessions that do not hold the lease", async () => {
+      expect(manager.acquire("tab-1", alice).ok).toBe(true);
+
+      const result = await manager.execute("click", {}, "tab-1", { session: bob });
+
+      expect(result.code).toBe("EXECUTOR_LEASED");
+      expect(result.error).toContain("claude-code (session-1)");
+      expect(commands(mockWs)).toHaveLength(0);
+      expect(manager.acquire("tab-1", bob)).toMatchObject({ ok: false, code: "EXECUTOR_LEASED" });
+      expect(manager.release("tab-1", bob)).toMatchObject({ ok: false, code: "EXECUTOR_LEASED" });
+    });
+
+    it("should route the holder's commands to its leased executor", () => {
+      manager.acquire("tab-2", alice);
+
+      manager.execute("click", {}, undefined, { session: alice });
+
+      expect(commands(mockWs)).not.toHaveLength(0);
+      expect(manager.getDefault(alice.id)).toBe("tab-2");
+    });
+
+    it("should show the lease holder in the executor list", () => {
+      manager.acquire("tab-1", alice, 1000);
+
+      const [tab1, tab2] = manager.list();
+      expect(tab1.lease).toMatchObject({ sessionId: "session-1", client: "claude-code", ttlMs: 1000 });
+      expect(tab2.lease).toBeUndefined();
+    });
+
+    it("should expire leases after the TTL without commands", async () => {
+      vi.useFakeTimers();
+      manager.acquire("tab-1", alice, 1000);
+
+      vi.advanceTimersByTime(800);
+      manager.execute("click", {}, "tab-1", { session: alice });
+      vi.advanceTimersByTime(800);
+      expect(manager.getLease("tab-1")).toBeDefined();
+
+      vi.advanceTimersByTime(200);
+      expect(manager.getLease("tab-1")).toBeUndefined();
+      expect(manager.acquire("tab-1", bob).ok).toBe(true);
+    });
+
+    it("should release leases and defaults when the session ends", () => {
+      manager.acquire("tab-2", alice);
+      manager.release("tab-2", alice);
+      expect(manager.getLease("tab-2")).toBeUndefined();
+
+      manager.acquire("tab-2", alice);
+      manager.endSession(alice.id);
+
+      expect(manager.getLease("tab-2")).toBeUndefined();
+      expect(manager.getDefault(alice.id)).toBe("tab-1");
+    });
+  });
+
+  describe("cancellation", () => {
+    beforeEach(() => {
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "test-executor",
+        platform: "desktop",
+        capabilities: ["shellExec"],
+        meta: {},
+      });
+    });
+
+    const sent = () => commands(mockWs);
+
+    it("should send the per-command timeout with the command", async () => {
+      vi.useFakeTimers();
+      try {
+        const executePromise = manager.execute("shellExec", { command: "sleep 1" }, undefined, { timeoutMs: 1000 });
+        expect(sent()[0].timeoutMs).toBe(1000);
+
+        vi.advanceTimersByTime(1000);
+        const result = await executePromise;
+        expect(result.code).toBe("TIMEOUT");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should tell the executor to cancel a timed out command", async () => {
+      vi.useFakeTimers();
+      try {
+        const executePromise = manager.execute("shellExec", { command: "sleep 60" });
+        vi.advanceTimersByTime(30000);
+        await executePromise;
+
+        const [command, cancel] = sent();
+        expect(cancel).toEqual({ type: "control", action: "cancel", requestId: command.id });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should cancel the command when the signal aborts", async () => {
+      const controller = new AbortController();
+      const executePromise = manager.execute("shellExec", { command: "sleep 60" }, undefined, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      const result = await executePromise;
+      expect(result.code).toBe("CANCELLED");
+      expect(sent()[1]).toMatchObject({ action: "cancel", requestId: sent()[0].id });
+    });
+
+    it("should not send commands whose signal already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await manager.execute("shellExec", {}, undefined, { signal: controller.signal });
+      expect(result.code).toBe("CANCELLED");
+      expect(commands(mockWs)).toHaveLength(0);
+    });
+
+    it("should ignore results that arrive after cancellation", async () => {
+      const controller = new AbortController();
+      const executePromise = manager.execute("shellExec", {}, undefined, { signal: controller.signal });
+      controller.abort();
+      manager.handleResult(mockWs, { type: "result", id: sent()[0].id, success: true });
+
+      const result = await executePromise;
+      expect(result.code).toBe("CANCELLED");
+    });
+  });
+
+  describe("progress", () => {
+    beforeEach(() => {
+      manager.register(mockWs, {
+        type: "register",
+        executorId: "test-executor",
+        platform: "desktop",
+        capabilities: ["shellExec"],
+        meta: {},
+      });
+    });
+
+    it("should forward progress for pending requests", async () => {
+      const onProgress = vi.fn();
+      const executePromise = manager.execute("shellExec", {}, undefined, { onProgress });
+      const { id } = commands(mockWs)[0];
+
+      manager.handleMessage(mockWs, { type: "progress", id, progress: 1, message: "line 1" });
+      manager.handleResult(mockWs, { type: "result", id, success: true });
+      await executePromise;
+
+      expect(onProgress).toHaveBeenCalledWith({ type: "progress", id, progress: 1, message: "line 1" });
+    });
+
+    it("should drop progress that arrives after the result", async () => {
+      const onProgress = vi.fn();
+      const executePromise = manager.execute("shellExec", {}, undefined, { onProgress });
+      const { id } = commands(mockWs)[0];
+
+      manager.handleResult(mockWs, { type: "result", id, success: true });
+      await executePromise;
+      manager.handleProgress(mockWs, { type: "progress", id, progress: 2 });
+
+      expect(onProgress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("events", () => {
+    const register = (executorId: string) =>
+      manager.register(mockWs, { type: "register", executorId, platform: "browser", capabilities: [], meta: {} });
+    const event = (executorId: string, name: "console" | "navigation", data = {}) =>
+      manager.handleMessage(mockWs, { type: "event", executorId, event: name, timestamp: 1, data });
+
+    beforeEach(() => {
+      register("tab-1");
+      register("tab-2");
+    });
+
+    it("should return events after the cursor in arrival order", () => {
+      event("tab-1", "console", { text: "a" });
+      event("tab-2", "navigation", { url: "https://example.com" });
+      const first = manager.events();
+
+      expect(first.events.map((e) => e.executorId)).toEqual(["tab-1", "tab-2"]);
+      expect(first.cursor).toBe(2);
+
+      event("tab-1", "console", { text: "b" });
+      const next = manager.events({ since: first.cursor });
+      expect(next.events).toHaveLength(1);
+      expect(next.events[0].data).toEqual({ text: "b" });
+      expect(manager.events({ since: next.cursor }).events).toEqual([]);
+    });
+
+    it("should filter by type and executor", () => {
+      event("tab-1", "console");
+      event("tab-1", "navigation");
+      event("tab-2", "console");
+
+      expect(manager.events({ types: ["console"] }).events.map((e) => e.seq)).toEqual([1, 3]);
+      expect(manager.events({ executorId: "tab-2" }).events.map((e) => e.seq)).toEqual([3]);
+      expect(manager.events({ types: ["navigation"] }).cursor).toBe(3);
+    });
+
+    it("should page with the limit", () => {
+      event("tab-1", "console");
+      event("tab-1", "console");
+      event("tab-1", "console");
+
+      const page = manager.events({ limit: 2 });
+      expect(page.events.map((e) => e.seq)).toEqual([1, 2]);
+      expect(manager.events({ since: page.cursor }).events.map((e) => e.seq)).toEqual([3]);
+    });
+
+    it("should keep only the most recent events", () => {
+      for (let i = 0; i < 510; i++) event("tab-1", "console");
+
+      const { events } = manager.events({ limit: 1000 });
+      expect(events).toHaveLength(500);
+      expect(events[0].seq).toBe(11);
+    });
+
+    it("should ignore events from unknown executors", () => {
+      event("tab-3", "console");
+      expect(manager.events().events).toEqual([]);
+    });
+  });
+
   describe("handleMessage", () => {
+    it("should ignore messages about executors another socket registered", async () => {
+      const otherWs = { send: vi.fn(), close: vi.fn() } as unknown as WebSocket;
+      manager.register(mockWs, { type: "register", executorId: "victim", platform: "desktop", capabilities: ["shellExec"], meta: {} });
+      manager.register(otherWs, { type: "register", executorId: "intruder", platform: "desktop", capabilities: [], meta: {} });
+      const executePromise = manager.execute("shellExec", {}, "victim");
+      const { id } = commands(mockWs)[0];
+
+      manager.handleMessage(otherWs, { type: "result", id, success: true, data: "forged" });
+      manager.handleMessage(otherWs, { type: "state", executorId: "victim", meta: { title: "forged" } });
+      manager.handleMessage(otherWs, { type: "event", executorId: "victim", event: "console", timestamp: 1 });
+      manager.handleMessage(mockWs, { type: "result", id, success: true, data: "real" });
+
+      expect((await executePromise).data).toBe("real");
+      expect(manager.list().find((e) => e.executorId === "victim")?.meta).toEqual({});
+      expect(manager.events().events).toEqual([]);
+    });
+
     it("should handle register message", () => {
       manager.handleMessage(mockWs, {
         type: "register",
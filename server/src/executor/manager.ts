@@ -1,35 +1,162 @@
+import { EventEmitter } from "events";
+import { randomBytes, timingSafeEqual } from "crypto";
 import { WebSocket } from "ws";
 import {
   ExecutorInfo,
+  ExecutorLease,
   ExecutorRegister,
+  ExecutorWelcome,
+  PoolInfo,
+  ExecutorHealth,
   ExecuteCommand,
   ExecuteResult,
+  ExecuteProgress,
+  ExecutorEvent,
   ClientMessage,
   ControlCommand,
+  ErrorCode,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  PROTOCOL_VERSION,
 } from "@wire-agent/protocol";
 import { executorLogger as log } from "../utils/logger";
+import type { Policy } from "../policy/policy";
+import { auditLog, redactParams } from "../audit/log";
+import { isSelector, matchesSelector, parseSelector, SelectorError } from "./selector";
+import { createPool, leastBusy, type Pool, type PoolDefinition } from "./pool";
+import { DEFAULT_HEALTH_THRESHOLDS, healthOf, type HealthThresholds } from "./health";
+import { commandDuration, commandsTotal, commandTimeouts } from "../metrics/metrics";
 
 interface ExecutorConnection {
   ws: WebSocket;
   info: ExecutorRegister;
+  protocolVersion: number; // Negotiated when the socket registered
   connectedAt: number;
   lastActiveAt: number;
   pendingRequests: Map<string, {
+    action: string;
     resolve: (result: ExecuteResult) => void;
-    reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
+    onProgress?: (progress: ExecuteProgress) => void;
+    sentAt: number;
   }>;
+  latencyMs?: number; // Moving average of command round trips
+  health: ExecutorHealth; // As of the last heartbeat or sign of life
+  pingSentAt?: number; // Set while a ping is unanswered
+  pingLatencyMs?: number;
+  events: BufferedEvent[]; // Ring buffer of the most recent events
+  resumeToken: string;
+  // Set while the socket is down; the executor is forgotten when the grace timer fires
+  disconnectedAt?: number;
+  graceTimer?: NodeJS.Timeout;
 }
 
-export class ExecutorManager {
+// Event with a manager-wide sequence number used as the query cursor
+export interface BufferedEvent extends ExecutorEvent {
+  seq: number;
+}
+
+export interface EventQuery {
+  // Exact id or selector (default: all executors)
+  executorId?: string;
+  // Only return events after this cursor
+  since?: number;
+  types?: string[];
+  limit?: number;
+}
+
+// One MCP connection; leases and default executors belong to a session
+export interface Session {
+  id: string;
+  // MCP client name, when known
+  client?: string;
+}
+
+export interface LookupError {
+  ok: false;
+  code: ErrorCode;
+  error: string;
+}
+
+export type LeaseResult = { ok: true; lease?: ExecutorLease } | LookupError;
+
+export type ExecutorLookup = { ok: true; executorId: string } | LookupError;
+
+// One executor's part of a fan-out
+export interface FanoutResult {
+  executorId: string;
+  result: ExecuteResult;
+  durationMs: number;
+}
+
+type ExecutorTarget = { ok: true; conn: ExecutorConnection } | LookupError;
+
+interface SelectorMatch {
+  matches: ExecutorConnection[];
+  // Pools named by the selector, if any
+  pools: Pool[];
+}
+
+export interface ExecuteOptions {
+  // Sender of the command; without one, leased executors are off limits
+  session?: Session;
+  // Overrides the default request timeout for this command
+  timeoutMs?: number;
+  // Aborting cancels the command on the executor
+  signal?: AbortSignal;
+  // Called for every progress message the executor sends for this command
+  onProgress?: (progress: ExecuteProgress) => void;
+}
+
+function failure(id: string, code: ErrorCode, error: string): ExecuteResult {
+  return { type: "result", id, success: false, code, error };
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const actual = Buffer.from(a);
+  const expected = Buffer.from(b);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function leasedError(executorId: string, lease: ExecutorLease): string {
+  const holder = lease.client ? `${lease.client} (${lease.sessionId})` : lease.sessionId;
+  return `Executor ${executorId} is leased by ${holder} until ${new Date(lease.expiresAt).toISOString()}`;
+}
+
+// Longest command timeout accepted, well below what setTimeout can wait
+export const MAX_COMMAND_TIMEOUT = 24 * 60 * 60 * 1000; // 1 day
+
+// Emitted whenever the set of connected executors changes
+export const EXECUTORS_CHANGED = "executorsChanged";
+
+// Emitted with (executorId, health, previous) when an executor's health changes
+export const EXECUTOR_HEALTH_CHANGED = "executorHealthChanged";
+
+// Emitted with the BufferedEvent for every event an executor sends
+export const EXECUTOR_EVENT = "executorEvent";
+
+export class ExecutorManager extends EventEmitter {
   private executors: Map<string, ExecutorConnection> = new Map();
   private defaultExecutorId: string | null = null;
+  private sessionDefaults: Map<string, string> = new Map();
+  private leases: Map<string, ExecutorLease> = new Map();
+  private pools: Map<string, Pool> = new Map();
+  // Session id -> pool selector -> member the session sticks to
+  private stickyMembers: Map<string, Map<string, string>> = new Map();
+  private readonly DEFAULT_LEASE_TTL = 5 * 60 * 1000; // 5 minutes
   private requestTimeout: number = 30000; // 30 seconds
+  private policy: Policy | null = null;
+  private eventSeq = 0;
+  private readonly EVENT_BUFFER_SIZE = 500;
   private heartbeatInterval: NodeJS.Timeout | null = null;
-  private readonly HEARTBEAT_INTERVAL = 15000; // 15 seconds
-  private readonly HEARTBEAT_TIMEOUT = 45000; // 45 seconds (3 missed heartbeats)
+  private healthThresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS;
+  private readonly LATENCY_WEIGHT = 0.2; // Weight of the newest sample in latencyMs
+  // How long a dropped executor may take to reconnect with its resume token
+  private resumeGrace: number = 30000; // 30 seconds
+  // Frame size limit of the executor socket, told to executors in the welcome
+  private maxMessageBytes: number = DEFAULT_MAX_MESSAGE_SIZE;
 
   constructor() {
+    super();
     this.startHeartbeat();
   }
 
@@ -38,23 +165,79 @@ export class ExecutorManager {
 
     this.heartbeatInterval = setInterval(() => {
       this.checkConnections();
-    }, this.HEARTBEAT_INTERVAL);
+    }, this.healthThresholds.pingIntervalMs);
 
     log.info("Heartbeat monitoring started");
   }
 
+  // Ping every connected executor, evicting those silent for too long
   private checkConnections(): void {
-    const now = Date.now();
-
-    for (const [id, conn] of this.executors) {
-      // Check for stale connections
-      if (now - conn.lastActiveAt > this.HEARTBEAT_TIMEOUT) {
-        log.warn(`Executor ${id} appears stale, sending ping`);
+    for (const conn of this.executors.values()) {
+      if (conn.disconnectedAt) continue;
+      const health = this.updateHealth(conn);
+      if (health === "evicted") {
+        this.evict(conn);
+      } else {
         this.sendPing(conn);
       }
     }
   }
 
+  private currentHealth(conn: ExecutorConnection): ExecutorHealth {
+    if (conn.disconnectedAt) return "unresponsive";
+    return healthOf(Date.now() - conn.lastActiveAt, conn.pingLatencyMs, this.healthThresholds);
+  }
+
+  private updateHealth(conn: ExecutorConnection): ExecutorHealth {
+    const health = this.currentHealth(conn);
+    const previous = conn.health;
+    if (health === previous) return health;
+
+    conn.health = health;
+    const details = { silentMs: Date.now() - conn.lastActiveAt, pingLatencyMs: conn.pingLatencyMs };
+    if (health === "healthy") {
+      log.info(`Executor ${conn.info.executorId} is healthy again (was ${previous})`, details);
+    } else {
+      log.warn(`Executor ${conn.info.executorId} is ${health} (was ${previous})`, details);
+    }
+    this.emit(EXECUTOR_HEALTH_CHANGED, conn.info.executorId, health, previous);
+    return health;
+  }
+
+  // Any message from the executor is a sign of life
+  private touch(conn: ExecutorConnection): void {
+    conn.lastActiveAt = Date.now();
+    this.updateHealth(conn);
+  }
+
+  // Executors registered over one socket (the browser registers itself and
+  // each tab) live and die with it, so any message on it counts for all
+  private connectionsOf(ws: WebSocket): ExecutorConnection[] {
+    return Array.from(this.executors.values()).filter((conn) => conn.ws === ws && !conn.disconnectedAt);
+  }
+
+  // The socket looks dead: close it without waiting for the resume grace
+  // period and fail the pending requests now rather than at their timeouts.
+  // A socket that still carries a live executor stays open.
+  private evict(conn: ExecutorConnection): void {
+    const id = conn.info.executorId;
+    const silentMs = Date.now() - conn.lastActiveAt;
+    const reason = `Executor evicted after ${Math.round(silentMs / 1000)}s without a sign of life`;
+    log.warn(`Evicting ${id}: no sign of life for ${silentMs}ms`, { pendingRequests: conn.pendingRequests.size });
+    this.unregister(id, reason);
+
+    const sharing = this.connectionsOf(conn.ws);
+    if (sharing.some((other) => this.currentHealth(other) !== "evicted")) return;
+    for (const other of sharing) {
+      this.unregister(other.info.executorId, reason);
+    }
+    try {
+      conn.ws.terminate();
+    } catch (err) {
+      log.error(`Failed to close the socket of ${id}`, err);
+    }
+  }
+
   private sendPing(conn: ExecutorConnection): void {
     try {
       const pingCommand: ControlCommand = {
@@ -62,6 +245,8 @@ export class ExecutorManager {
         action: "ping",
       };
       conn.ws.send(JSON.stringify(pingCommand));
+      // An earlier ping still unanswered keeps counting
+      conn.pingSentAt ??= Date.now();
     } catch (err) {
       log.error(`Failed to send ping to ${conn.info.executorId}`, err);
     }
@@ -75,21 +260,55 @@ export class ExecutorManager {
     }
   }
 
-  register(ws: WebSocket, info: ExecutorRegister): void {
+  // Takes effect from the next heartbeat
+  setHealthThresholds(thresholds: HealthThresholds): void {
+    this.healthThresholds = thresholds;
+    if (this.heartbeatInterval) {
+      this.stopHeartbeat();
+      this.startHeartbeat();
+    }
+  }
+
+  setResumeGrace(ms: number): void {
+    this.resumeGrace = ms;
+  }
+
+  setMaxMessageSize(bytes: number): void {
+    this.maxMessageBytes = bytes;
+  }
+
+  register(ws: WebSocket, registration: ExecutorRegister, protocolVersion = PROTOCOL_VERSION): void {
+    const { resumeToken, ...info } = registration;
     const existing = this.executors.get(info.executorId);
+    if (existing && resumeToken && tokensMatch(resumeToken, existing.resumeToken)) {
+      this.resume(existing, ws, info, protocolVersion);
+      return;
+    }
+    if (resumeToken) {
+      log.info(`Cannot resume ${info.executorId}: unknown or expired resume token`);
+    }
     if (existing) {
       log.info(`Replacing existing executor: ${info.executorId}`);
+      clearTimeout(existing.graceTimer);
+      this.failPending(existing, "Executor registered again");
       existing.ws.close();
     }
 
     const now = Date.now();
-    this.executors.set(info.executorId, {
+    const conn: ExecutorConnection = {
       ws,
       info,
+      protocolVersion,
       connectedAt: now,
       lastActiveAt: now,
       pendingRequests: new Map(),
-    });
+      health: "healthy",
+      // Keep the events of a replaced connection
+      events: existing?.events ?? [],
+      resumeToken: randomBytes(24).toString("base64url"),
+    };
+    this.executors.set(info.executorId, conn);
+    this.sendWelcome(conn, false);
 
     // Set as default if first executor
     if (!this.defaultExecutorId) {
@@ -98,20 +317,100 @@ export class ExecutorManager {
     }
 
     log.info(`Registered: ${info.executorId} (${info.platform})`, {
+      protocolVersion,
       capabilities: info.capabilities,
       meta: info.meta,
     });
+
+    this.emit(EXECUTORS_CHANGED);
+  }
+
+  // Swap in the new socket, keeping pending requests, events, defaults and leases
+  private resume(
+    conn: ExecutorConnection,
+    ws: WebSocket,
+    info: Omit<ExecutorRegister, "resumeToken">,
+    protocolVersion: number
+  ): void {
+    clearTimeout(conn.graceTimer);
+    const offlineMs = conn.disconnectedAt ? Date.now() - conn.disconnectedAt : 0;
+    const previous = conn.ws;
+    conn.ws = ws;
+    conn.info = info;
+    conn.protocolVersion = protocolVersion;
+    conn.disconnectedAt = undefined;
+    conn.graceTimer = undefined;
+    conn.pingSentAt = undefined;
+    this.touch(conn);
+    // The old socket may not have noticed the drop yet
+    if (previous !== ws) {
+      previous.close();
+    }
+
+    log.info(`Resumed: ${info.executorId}`, { offlineMs, pendingRequests: conn.pendingRequests.size });
+    this.sendWelcome(conn, true);
+    this.emit(EXECUTORS_CHANGED);
+  }
+
+  private sendWelcome(conn: ExecutorConnection, resumed: boolean): void {
+    try {
+      const welcome: ExecutorWelcome = {
+        type: "welcome",
+        protocolVersion: conn.protocolVersion,
+        executorId: conn.info.executorId,
+        resumeToken: conn.resumeToken,
+        resumed,
+        heartbeatIntervalMs: this.healthThresholds.pingIntervalMs,
+        limits: {
+          requestTimeoutMs: this.requestTimeout,
+          heartbeatTimeoutMs: this.healthThresholds.unresponsiveAfterMs,
+          resumeGraceMs: this.resumeGrace,
+          eventBufferSize: this.EVENT_BUFFER_SIZE,
+          maxMessageBytes: this.maxMessageBytes,
+        },
+      };
+      conn.ws.send(JSON.stringify(welcome));
+    } catch (err) {
+      log.error(`Failed to confirm registration of ${conn.info.executorId}`, err);
+    }
+  }
+
+  private failPending(conn: ExecutorConnection, error: string): void {
+    for (const [id, pending] of conn.pendingRequests) {
+      clearTimeout(pending.timeout);
+      pending.resolve(failure(id, "EXECUTOR_DISCONNECTED", error));
+    }
   }
 
-  unregister(executorId: string): void {
+  // The socket of every executor registered over ws closed. Each is kept for
+  // the resume grace period before its pending requests fail.
+  disconnect(ws: WebSocket): void {
+    for (const [id, conn] of this.executors) {
+      if (conn.ws !== ws || conn.disconnectedAt) continue;
+      if (this.resumeGrace <= 0) {
+        this.unregister(id);
+        continue;
+      }
+
+      conn.disconnectedAt = Date.now();
+      this.updateHealth(conn);
+      conn.graceTimer = setTimeout(() => {
+        log.info(`Executor ${id} did not resume within ${this.resumeGrace}ms`);
+        this.unregister(id);
+      }, this.resumeGrace);
+      log.info(`Disconnected: ${id}, waiting ${this.resumeGrace}ms for it to resume`, {
+        pendingRequests: conn.pendingRequests.size,
+      });
+    }
+  }
+
+  unregister(executorId: string, reason = "Executor disconnected"): void {
     const conn = this.executors.get(executorId);
     if (conn) {
-      // Reject all pending requests
+      clearTimeout(conn.graceTimer);
+      // Fail all pending requests
       const pendingCount = conn.pendingRequests.size;
-      for (const [id, pending] of conn.pendingRequests) {
-        clearTimeout(pending.timeout);
-        pending.reject(new Error("Executor disconnected"));
-      }
+      this.failPending(conn, reason);
       this.executors.delete(executorId);
 
       // Update default if needed
@@ -122,117 +421,523 @@ export class ExecutorManager {
           log.info(`New default executor: ${this.defaultExecutorId}`);
         }
       }
+      this.forgetExecutor(executorId);
 
       log.info(`Unregistered: ${executorId}`, { pendingRequestsRejected: pendingCount });
+
+      this.emit(EXECUTORS_CHANGED);
     }
   }
 
-  unregisterByWs(ws: WebSocket): void {
-    for (const [id, conn] of this.executors) {
-      if (conn.ws === ws) {
-        this.unregister(id);
-        return;
+  // Connections with this exact id, or matching this selector. A pool=name
+  // term matches the members of that pool, which are returned with it.
+  private match(selector: string): SelectorMatch {
+    const exact = this.executors.get(selector);
+    if (exact || !isSelector(selector)) {
+      return { matches: exact ? [exact] : [], pools: [] };
+    }
+
+    const terms = parseSelector(selector);
+    const poolTerms = terms.filter((term) => term.key === "pool");
+    const otherTerms = terms.filter((term) => term.key !== "pool");
+    const pools = Array.from(this.pools.values())
+      .filter((pool) => poolTerms.length > 0 && poolTerms.every((term) => term.pattern.test(pool.name)));
+    if (poolTerms.length > 0 && pools.length === 0) {
+      throw new SelectorError(`No pool matches selector "${selector}"`);
+    }
+
+    const matches = Array.from(this.executors.values()).filter((conn) =>
+      matchesSelector(otherTerms, conn.info) &&
+      (poolTerms.length === 0 || pools.some((pool) => matchesSelector(pool.terms, conn.info)))
+    );
+    return { matches, pools };
+  }
+
+  // Healthy or degraded executors still get commands
+  private isAvailable(conn: ExecutorConnection): boolean {
+    const health = this.currentHealth(conn);
+    return health === "healthy" || health === "degraded";
+  }
+
+  private isLeasedByOther(conn: ExecutorConnection, sessionId?: string): boolean {
+    const lease = this.getLease(conn.info.executorId);
+    return !!lease && lease.sessionId !== sessionId;
+  }
+
+  // The least-busy available member this session may use, or the member the
+  // session already sticks to
+  private pickMember(
+    selector: string,
+    members: ExecutorConnection[],
+    pools: Pool[],
+    sessionId?: string
+  ): ExecutorTarget {
+    const names = pools.map((pool) => pool.name).join(", ");
+    const available = members.filter((conn) => this.isAvailable(conn) && !this.isLeasedByOther(conn, sessionId));
+
+    const sticky = sessionId !== undefined && pools.every((pool) => pool.sticky);
+    const stuckTo = sticky ? this.stickyMembers.get(sessionId)?.get(selector) : undefined;
+    const current = available.find((conn) => conn.info.executorId === stuckTo);
+    if (current) {
+      return { ok: true, conn: current };
+    }
+
+    const best = leastBusy(available.map((conn) => ({
+      executorId: conn.info.executorId,
+      pendingRequests: conn.pendingRequests.size,
+      latencyMs: conn.latencyMs,
+    })));
+    if (!best) {
+      const error = members.length === 0
+        ? `Pool ${names} has no member matching "${selector}"`
+        : `None of the ${members.length} members of pool ${names} is both healthy and not leased by another session`;
+      return { ok: false, code: "EXECUTOR_NOT_FOUND", error };
+    }
+
+    if (sticky) {
+      if (stuckTo) {
+        log.info(`Sticky member ${stuckTo} of pool ${names} unavailable, moving ${sessionId} to ${best.executorId}`);
       }
+      const sessionMembers = this.stickyMembers.get(sessionId) ?? new Map<string, string>();
+      sessionMembers.set(selector, best.executorId);
+      this.stickyMembers.set(sessionId, sessionMembers);
     }
+    return { ok: true, conn: this.executors.get(best.executorId)! };
   }
 
-  getExecutor(executorId?: string): ExecutorConnection | null {
-    const id = executorId || this.defaultExecutorId;
-    if (!id) return null;
-    return this.executors.get(id) || null;
+  // An exact id, a selector matching exactly one executor, or a pool
+  // selector; without any, the session's default
+  getExecutor(selector?: string, sessionId?: string): ExecutorTarget {
+    if (!selector) {
+      const id = this.getDefault(sessionId);
+      const conn = id ? this.executors.get(id) : undefined;
+      if (conn) return { ok: true, conn };
+      return { ok: false, code: "EXECUTOR_NOT_FOUND", error: id ? `Executor not found: ${id}` : "No executor connected" };
+    }
+
+    let found: SelectorMatch;
+    try {
+      found = this.match(selector);
+    } catch (err) {
+      if (!(err instanceof SelectorError)) throw err;
+      return { ok: false, code: "INVALID_PARAMS", error: err.message };
+    }
+
+    const { matches, pools } = found;
+    if (pools.length > 0) {
+      return this.pickMember(selector, matches, pools, sessionId);
+    }
+    if (matches.length === 1) {
+      return { ok: true, conn: matches[0] };
+    }
+    if (matches.length === 0) {
+      const error = isSelector(selector)
+        ? `No executor matches selector "${selector}"`
+        : `Executor not found: ${selector}`;
+      return { ok: false, code: "EXECUTOR_NOT_FOUND", error };
+    }
+    const ids = matches.map((conn) => conn.info.executorId).join(", ");
+    return {
+      ok: false,
+      code: "INVALID_PARAMS",
+      error: `Selector "${selector}" is ambiguous, it matches ${matches.length} executors: ${ids}`,
+    };
   }
 
-  setDefault(executorId: string): boolean {
-    if (this.executors.has(executorId)) {
+  // Every executor an exact id or selector matches; a pool selector matches all members
+  select(selector: string): { ok: true; executorIds: string[] } | LookupError {
+    let found: SelectorMatch;
+    try {
+      found = this.match(selector);
+    } catch (err) {
+      if (!(err instanceof SelectorError)) throw err;
+      return { ok: false, code: "INVALID_PARAMS", error: err.message };
+    }
+    if (found.matches.length === 0) {
+      return { ok: false, code: "EXECUTOR_NOT_FOUND", error: `No executor matches selector "${selector}"` };
+    }
+    return { ok: true, executorIds: found.matches.map((conn) => conn.info.executorId) };
+  }
+
+  // Like getExecutor, for callers that only need the id
+  resolve(selector?: string, sessionId?: string): ExecutorLookup {
+    const found = this.getExecutor(selector, sessionId);
+    return found.ok ? { ok: true, executorId: found.conn.info.executorId } : found;
+  }
+
+  // With a session, only that session's default changes
+  setDefault(executorId: string, sessionId?: string): boolean {
+    if (!this.executors.has(executorId)) {
+      return false;
+    }
+    if (sessionId) {
+      this.sessionDefaults.set(sessionId, executorId);
+    } else {
       this.defaultExecutorId = executorId;
-      return true;
     }
-    return false;
+    return true;
   }
 
-  getDefault(): string | null {
-    return this.defaultExecutorId;
+  // The session's own default, else the first executor that registered
+  getDefault(sessionId?: string): string | null {
+    return (sessionId && this.sessionDefaults.get(sessionId)) || this.defaultExecutorId;
+  }
+
+  // Current lease on an executor, dropping it once expired
+  getLease(executorId: string): ExecutorLease | undefined {
+    const lease = this.leases.get(executorId);
+    if (lease && lease.expiresAt <= Date.now()) {
+      this.leases.delete(executorId);
+      log.info(`Lease on ${executorId} held by ${lease.sessionId} expired`);
+      return undefined;
+    }
+    return lease;
+  }
+
+  // Take (or renew) exclusive use of an executor; it also becomes the session's default
+  acquire(executorId: string, session: Session, ttlMs = this.DEFAULT_LEASE_TTL): LeaseResult {
+    if (!this.executors.has(executorId)) {
+      return { ok: false, code: "EXECUTOR_NOT_FOUND", error: `Executor not found: ${executorId}` };
+    }
+    const current = this.getLease(executorId);
+    if (current && current.sessionId !== session.id) {
+      return { ok: false, code: "EXECUTOR_LEASED", error: leasedError(executorId, current) };
+    }
+
+    const now = Date.now();
+    const lease: ExecutorLease = {
+      sessionId: session.id,
+      client: session.client,
+      acquiredAt: current?.acquiredAt ?? now,
+      ttlMs,
+      expiresAt: now + ttlMs,
+    };
+    this.leases.set(executorId, lease);
+    this.sessionDefaults.set(session.id, executorId);
+    log.info(`${current ? "Renewed" : "Acquired"} lease on ${executorId} for ${session.id}`, { ttlMs });
+    return { ok: true, lease };
+  }
+
+  // Releasing an executor nobody holds succeeds without a lease
+  release(executorId: string, session: Session): LeaseResult {
+    const current = this.getLease(executorId);
+    if (!current) {
+      return { ok: true };
+    }
+    if (current.sessionId !== session.id) {
+      return { ok: false, code: "EXECUTOR_LEASED", error: leasedError(executorId, current) };
+    }
+    this.leases.delete(executorId);
+    log.info(`Released lease on ${executorId} for ${session.id}`);
+    return { ok: true, lease: current };
+  }
+
+  // Drop what sessions held on an executor that is gone for good, so a new
+  // executor registering under the same id starts out unleased. Sessions
+  // that used it fall back to the default executor, like the default itself.
+  private forgetExecutor(executorId: string): void {
+    const lease = this.leases.get(executorId);
+    if (lease) {
+      this.leases.delete(executorId);
+      log.info(`Released lease on ${executorId} held by ${lease.sessionId}, executor went away`);
+    }
+    for (const [sessionId, id] of this.sessionDefaults) {
+      if (id === executorId) {
+        this.sessionDefaults.delete(sessionId);
+        log.info(`Cleared default executor ${executorId} of ${sessionId}, executor went away`);
+      }
+    }
+    for (const members of this.stickyMembers.values()) {
+      for (const [selector, id] of members) {
+        if (id === executorId) members.delete(selector);
+      }
+    }
+    // Ids such as browser:tab:N come and go; their series would pile up
+    commandDuration.remove({ executor: executorId });
+    commandTimeouts.remove({ executor: executorId });
+  }
+
+  // Drop everything a closed session held
+  endSession(sessionId: string): void {
+    this.sessionDefaults.delete(sessionId);
+    this.stickyMembers.delete(sessionId);
+    for (const [executorId, lease] of this.leases) {
+      if (lease.sessionId === sessionId) {
+        this.leases.delete(executorId);
+        log.info(`Released lease on ${executorId}, ${sessionId} ended`);
+      }
+    }
   }
 
   list(): ExecutorInfo[] {
     return Array.from(this.executors.values()).map((conn) => ({
       executorId: conn.info.executorId,
       platform: conn.info.platform,
+      protocolVersion: conn.protocolVersion,
       capabilities: conn.info.capabilities,
       meta: conn.info.meta,
+      tags: conn.info.tags,
       connectedAt: conn.connectedAt,
       lastActiveAt: conn.lastActiveAt,
+      lease: this.getLease(conn.info.executorId),
+      pendingRequests: conn.pendingRequests.size,
+      latencyMs: conn.latencyMs,
+      health: this.currentHealth(conn),
+      pingLatencyMs: conn.pingLatencyMs,
+      pools: Array.from(this.pools.values())
+        .filter((pool) => matchesSelector(pool.terms, conn.info))
+        .map((pool) => pool.name),
+      disconnectedAt: conn.disconnectedAt,
     }));
   }
 
+  // Replaces all pools; throws SelectorError for an invalid definition
+  setPools(definitions: PoolDefinition[]): void {
+    const pools = new Map<string, Pool>();
+    for (const definition of definitions) {
+      pools.set(definition.name, createPool(definition));
+    }
+    this.pools = pools;
+    this.stickyMembers.clear();
+  }
+
+  poolStatus(): PoolInfo[] {
+    return Array.from(this.pools.values()).map((pool) => {
+      const members = Array.from(this.executors.values()).filter((conn) => matchesSelector(pool.terms, conn.info));
+      return {
+        name: pool.name,
+        selector: pool.selector,
+        sticky: pool.sticky,
+        members: members.map((conn) => conn.info.executorId),
+        healthy: members.filter((conn) => this.isAvailable(conn)).length,
+        pendingRequests: members.reduce((sum, conn) => sum + conn.pendingRequests.size, 0),
+      };
+    });
+  }
+
+  // Checked before every command is dispatched (null: allow everything)
+  setPolicy(policy: Policy | null): void {
+    this.policy = policy;
+  }
+
+  // Union of capabilities across all connected executors
+  capabilities(): Set<string> {
+    const capabilities = new Set<string>();
+    for (const conn of this.executors.values()) {
+      for (const capability of conn.info.capabilities) {
+        capabilities.add(capability);
+      }
+    }
+    return capabilities;
+  }
+
   async execute(
     action: string,
     params: Record<string, unknown>,
-    executorId?: string
+    executorId?: string,
+    options: ExecuteOptions = {}
   ): Promise<ExecuteResult> {
-    const conn = this.getExecutor(executorId);
-    if (!conn) {
-      const error = executorId
-        ? `Executor not found: ${executorId}`
-        : "No executor connected";
-      log.warn(`Execute failed: ${error}`);
-      return {
-        type: "result",
-        id: "",
-        success: false,
-        error,
-      };
+    const startedAt = Date.now();
+    const target = this.getExecutor(executorId, options.session?.id);
+    const result = await this.dispatch(target, action, params, options);
+    this.recordCommand(action, params, target.ok ? target.conn.info.executorId : executorId, options, result, startedAt);
+    return result;
+  }
+
+  // Every command outcome goes to the audit log and the command metrics
+  private recordCommand(
+    action: string,
+    params: Record<string, unknown>,
+    executorId: string | undefined,
+    options: ExecuteOptions,
+    result: ExecuteResult,
+    startedAt: number
+  ): void {
+    auditLog.record({
+      kind: "command",
+      requestId: result.id,
+      action,
+      executorId,
+      sessionId: options.session?.id,
+      params: redactParams(action, params),
+      durationMs: Date.now() - startedAt,
+      outcome: result.success ? "ok" : "error",
+      code: result.code,
+    });
+    commandsTotal.inc({ action, outcome: result.success ? "ok" : result.code ?? "EXECUTION_FAILED" });
+  }
+
+  // Runs one action on several executors concurrently. Executors without the
+  // capability fail with NOT_SUPPORTED instead of being sent the command.
+  async fanout(
+    action: string,
+    params: Record<string, unknown>,
+    executorIds: string[],
+    options: ExecuteOptions & { onResult?: (result: FanoutResult) => void } = {}
+  ): Promise<FanoutResult[]> {
+    const { onResult, ...executeOptions } = options;
+    return Promise.all(executorIds.map(async (executorId) => {
+      const startedAt = Date.now();
+      const conn = this.executors.get(executorId);
+      let result: ExecuteResult;
+      if (conn && !conn.info.capabilities.includes(action)) {
+        result = failure("", "NOT_SUPPORTED", `${executorId} does not support ${action}`);
+        this.recordCommand(action, params, executorId, executeOptions, result, startedAt);
+      } else {
+        result = await this.execute(action, params, executorId, executeOptions);
+      }
+
+      const fanoutResult = { executorId, result, durationMs: Date.now() - startedAt };
+      onResult?.(fanoutResult);
+      return fanoutResult;
+    }));
+  }
+
+  private async dispatch(
+    target: ExecutorTarget,
+    action: string,
+    params: Record<string, unknown>,
+    options: ExecuteOptions
+  ): Promise<ExecuteResult> {
+    // Zero, negative or non-finite timeouts would fail the command at once
+    const requested = options.timeoutMs;
+    if (requested !== undefined && !(Number.isInteger(requested) && requested > 0 && requested <= MAX_COMMAND_TIMEOUT)) {
+      const error = `timeoutMs must be an integer from 1 to ${MAX_COMMAND_TIMEOUT}, got ${requested}`;
+      log.warn(`Execute failed: ${error}`, { action });
+      return failure("", "INVALID_PARAMS", error);
+    }
+    if (!target.ok) {
+      log.warn(`Execute failed: ${target.error}`);
+      return failure("", target.code, target.error);
     }
+    const { conn } = target;
 
     const id = `req_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+    if (conn.disconnectedAt) {
+      const error = `Executor ${conn.info.executorId} is disconnected, waiting for it to reconnect`;
+      log.warn(`Execute failed: ${error}`, { id, action });
+      return failure(id, "EXECUTOR_DISCONNECTED", error);
+    }
+    const health = this.currentHealth(conn);
+    if (health === "unresponsive" || health === "evicted") {
+      const silence = Math.round((Date.now() - conn.lastActiveAt) / 1000);
+      const error = `Executor ${conn.info.executorId} is ${health}, no sign of life for ${silence}s`;
+      log.warn(`Execute failed: ${error}`, { id, action });
+      return failure(id, "EXECUTOR_DISCONNECTED", error);
+    }
+
+    const lease = this.getLease(conn.info.executorId);
+    if (lease) {
+      if (lease.sessionId !== options.session?.id) {
+        const error = leasedError(conn.info.executorId, lease);
+        log.warn(`Blocked ${action}: ${error}`, { id, sessionId: options.session?.id });
+        return { ...failure(id, "EXECUTOR_LEASED", error), data: { lease } };
+      }
+      // The holder is still using it
+      lease.expiresAt = Date.now() + lease.ttlMs;
+    }
+
+    if (this.policy) {
+      const decision = this.policy.check({
+        action,
+        params,
+        executorId: conn.info.executorId,
+        meta: conn.info.meta,
+      });
+      if (decision.effect === "deny") {
+        const source = decision.rule ? `policy rule "${decision.rule}"` : "default policy";
+        const error = `Denied by ${source}${decision.reason ? `: ${decision.reason}` : ""}`;
+        log.warn(`Blocked ${action} on ${conn.info.executorId}: ${error}`, { id, params: redactParams(action, params) });
+        return { ...failure(id, "PERMISSION_DENIED", error), data: { rule: decision.rule ?? null } };
+      }
+    }
+    const { signal } = options;
+    if (signal?.aborted) {
+      return failure(id, "CANCELLED", "Request cancelled");
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.requestTimeout;
     const command: ExecuteCommand = {
       type: "execute",
       id,
+      executorId: conn.info.executorId,
       action,
       params,
+      timeoutMs,
     };
 
-    log.debug(`Executing ${action} on ${conn.info.executorId}`, { id, params });
+    log.debug(`Executing ${action} on ${conn.info.executorId}`, { id, params: redactParams(action, params), timeoutMs });
 
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
+    return new Promise((resolve) => {
+      const settle = (result: ExecuteResult) => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
         conn.pendingRequests.delete(id);
+        resolve(result);
+      };
+
+      // Give up on our side and tell the executor to stop working on it
+      const abandon = (code: ErrorCode, error: string) => {
+        this.sendCancel(conn, id);
+        settle(failure(id, code, error));
+      };
+
+      const timeout = setTimeout(() => {
         log.warn(`Request timeout: ${id}`, { action, executorId: conn.info.executorId });
-        resolve({
-          type: "result",
-          id,
-          success: false,
-          error: `Request timeout after ${this.requestTimeout}ms`,
-        });
-      }, this.requestTimeout);
+        commandTimeouts.inc({ action, executor: conn.info.executorId });
+        abandon("TIMEOUT", `Request timeout after ${timeoutMs}ms`);
+      }, timeoutMs);
+
+      const onAbort = () => {
+        log.info(`Request cancelled: ${id}`, { action, executorId: conn.info.executorId });
+        abandon("CANCELLED", "Request cancelled");
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
 
-      conn.pendingRequests.set(id, { resolve, reject, timeout });
+      conn.pendingRequests.set(id, { action, resolve: settle, timeout, onProgress: options.onProgress, sentAt: Date.now() });
 
       try {
         conn.ws.send(JSON.stringify(command));
-        conn.lastActiveAt = Date.now();
       } catch (err) {
-        conn.pendingRequests.delete(id);
-        clearTimeout(timeout);
         log.error(`Failed to send command: ${id}`, err);
-        resolve({
-          type: "result",
+        settle(failure(
           id,
-          success: false,
-          error: `Failed to send command: ${err instanceof Error ? err.message : String(err)}`,
-        });
+          "EXECUTOR_DISCONNECTED",
+          `Failed to send command: ${err instanceof Error ? err.message : String(err)}`
+        ));
       }
     });
   }
 
-  handleResult(result: ExecuteResult): void {
-    // Find the executor with this pending request
+  private sendCancel(conn: ExecutorConnection, requestId: string): void {
+    try {
+      const cancelCommand: ControlCommand = {
+        type: "control",
+        action: "cancel",
+        requestId,
+      };
+      conn.ws.send(JSON.stringify(cancelCommand));
+    } catch (err) {
+      log.error(`Failed to send cancel to ${conn.info.executorId}`, err);
+    }
+  }
+
+  // Only the socket a command was sent to may settle it
+  handleResult(ws: WebSocket, result: ExecuteResult): void {
     for (const conn of this.executors.values()) {
+      if (conn.ws !== ws) continue;
       const pending = conn.pendingRequests.get(result.id);
       if (pending) {
         clearTimeout(pending.timeout);
         conn.pendingRequests.delete(result.id);
-        log.debug(`Result received: ${result.id}`, { success: result.success });
+        this.touch(conn);
+        const latency = Date.now() - pending.sentAt;
+        conn.latencyMs = conn.latencyMs === undefined
+          ? latency
+          : Math.round(conn.latencyMs * (1 - this.LATENCY_WEIGHT) + latency * this.LATENCY_WEIGHT);
+        commandDuration.observe({ action: pending.action, executor: conn.info.executorId }, latency / 1000);
+        log.debug(`Result received: ${result.id}`, { success: result.success, latency });
         pending.resolve(result);
         return;
       }
@@ -240,32 +945,118 @@ export class ExecutorManager {
     log.warn(`No pending request for: ${result.id}`);
   }
 
-  updateState(executorId: string, meta: Record<string, unknown>): void {
-    const conn = this.executors.get(executorId);
+  handleProgress(ws: WebSocket, progress: ExecuteProgress): void {
+    for (const conn of this.executors.values()) {
+      if (conn.ws !== ws) continue;
+      const pending = conn.pendingRequests.get(progress.id);
+      if (pending) {
+        this.touch(conn);
+        log.debug(`Progress received: ${progress.id}`, { progress: progress.progress, total: progress.total });
+        try {
+          pending.onProgress?.(progress);
+        } catch (err) {
+          log.error(`Failed to forward progress: ${progress.id}`, err);
+        }
+        return;
+      }
+    }
+    // Progress can race with completion or cancellation; nothing to do
+    log.debug(`No pending request for progress: ${progress.id}`);
+  }
+
+  handleEvent(ws: WebSocket, event: ExecutorEvent): void {
+    const conn = this.owned(ws, event.executorId, "event");
+    if (!conn) return;
+
+    this.touch(conn);
+    const buffered = { ...event, seq: ++this.eventSeq };
+    conn.events.push(buffered);
+    if (conn.events.length > this.EVENT_BUFFER_SIZE) {
+      conn.events.shift();
+    }
+    this.emit(EXECUTOR_EVENT, buffered);
+    log.debug(`Event received: ${event.event} from ${event.executorId}`);
+  }
+
+  // Buffered events after a cursor, oldest first. The returned cursor is
+  // passed back as `since` to continue where this query left off.
+  events(query: EventQuery = {}): { events: BufferedEvent[]; cursor: number } {
+    const { executorId, since = 0, types, limit = 100 } = query;
+    // Throws SelectorError for a malformed selector
+    const connections = executorId ? this.match(executorId).matches : Array.from(this.executors.values());
+
+    const matching = connections
+      .flatMap((conn) => conn.events)
+      .filter((e) => e.seq > since && (!types || types.includes(e.event)))
+      .sort((a, b) => a.seq - b.seq);
+
+    const events = matching.slice(0, limit);
+    const cursor = events.length < matching.length
+      ? events[events.length - 1]?.seq ?? since
+      : Math.max(since, this.eventSeq);
+    return { events, cursor };
+  }
+
+  updateState(ws: WebSocket, executorId: string, meta: Record<string, unknown>): void {
+    const conn = this.owned(ws, executorId, "state");
     if (conn) {
       conn.info.meta = { ...conn.info.meta, ...meta };
-      conn.lastActiveAt = Date.now();
+      this.touch(conn);
       log.debug(`State updated: ${executorId}`, meta);
     }
   }
 
+  // One pong answers the pings of every executor on the socket
+  private handlePong(ws: WebSocket, executorId: string): void {
+    const conn = this.owned(ws, executorId, "pong");
+    if (!conn) return;
+    for (const pinged of this.connectionsOf(ws)) {
+      if (pinged.pingSentAt !== undefined) {
+        pinged.pingLatencyMs = Date.now() - pinged.pingSentAt;
+        pinged.pingSentAt = undefined;
+      }
+      this.touch(pinged);
+    }
+    log.debug(`Pong received from ${executorId}`, { pingLatencyMs: conn.pingLatencyMs });
+  }
+
+  // The connection of an executor this socket registered. Messages naming an
+  // executor registered by another socket are dropped.
+  private owned(ws: WebSocket, executorId: string, type: string): ExecutorConnection | undefined {
+    const conn = this.executors.get(executorId);
+    if (!conn) {
+      log.warn(`Dropped ${type} from unknown executor: ${executorId}`);
+      return undefined;
+    }
+    if (conn.ws !== ws) {
+      log.warn(`Dropped ${type} for ${executorId} from a socket that did not register it`);
+      return undefined;
+    }
+    return conn;
+  }
+
   handleMessage(ws: WebSocket, message: ClientMessage): void {
+    if (message.type !== "register") {
+      this.connectionsOf(ws).forEach((conn) => this.touch(conn));
+    }
     switch (message.type) {
       case "register":
         this.register(ws, message);
         break;
       case "result":
-        this.handleResult(message);
+        this.handleResult(ws, message);
+        break;
+      case "progress":
+        this.handleProgress(ws, message);
+        break;
+      case "event":
+        this.handleEvent(ws, message);
         break;
       case "state":
-        this.updateState(message.executorId, message.meta);
+        this.updateState(ws, message.executorId, message.meta);
         break;
       case "pong":
-        const conn = this.executors.get(message.executorId);
-        if (conn) {
-          conn.lastActiveAt = Date.now();
-          log.debug(`Pong received from ${message.executorId}`);
-        }
+        this.handlePong(ws, message.executorId);
         break;
     }
   }
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { createPool, leastBusy, parsePools } from "./pool";
+
+describe("pool", () => {
+  it("should parse selector shorthands and full definitions", () => {
+    expect(parsePools('{"browsers": "platform=browser", "staging": {"selector": "tag=staging", "sticky": false}}'))
+      .toEqual([
+        { name: "browsers", selector: "platform=browser" },
+        { name: "staging", selector: "tag=staging", sticky: false },
+      ]);
+  });
+
+  it("should reject invalid configurations", () => {
+    expect(() => parsePools("[")).toThrow("Invalid pool configuration");
+    expect(() => parsePools('["platform=browser"]')).toThrow("must be an object");
+    expect(() => createPool({ name: "a b", selector: "platform=browser" })).toThrow("Invalid pool name");
+    expect(() => createPool({ name: "browsers", selector: "platform" })).toThrow("expected key=value");
+    expect(() => createPool({ name: "nested", selector: "pool=browsers" })).toThrow("other pools");
+  });
+
+  it("should be sticky by default", () => {
+    expect(createPool({ name: "browsers", selector: "platform=browser" }).sticky).toBe(true);
+  });
+
+  it("should prefer fewer pending requests, then lower latency", () => {
+    const pick = (...loads: [number, number?][]) =>
+      leastBusy(loads.map(([pendingRequests, latencyMs], i) => ({ executorId: `m${i}`, pendingRequests, latencyMs })))
+        ?.executorId;
+
+    expect(pick([2, 10], [1, 500], [3, 5])).toBe("m1");
+    expect(pick([1, 300], [1, 40])).toBe("m1");
+    expect(pick([0, 40], [0])).toBe("m1");
+    expect(pick()).toBeUndefined();
+  });
+});
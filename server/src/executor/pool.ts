@@ -0,0 +1,80 @@
+import { parseSelector, SelectorError, type SelectorTerm } from "./selector";
+
+// ============================================================
+// Executor pools
+// ============================================================
+
+export interface PoolDefinition {
+  name: string;
+  // Members are the executors matching this selector, e.g. "platform=browser"
+  selector: string;
+  // Keep each session on the member it was first given (default: true)
+  sticky?: boolean;
+}
+
+export interface Pool {
+  name: string;
+  selector: string;
+  sticky: boolean;
+  terms: SelectorTerm[];
+}
+
+// What the balancer knows about a candidate member
+export interface MemberLoad {
+  executorId: string;
+  pendingRequests: number;
+  latencyMs?: number;
+}
+
+const POOL_NAME = /^[\w.-]+$/;
+
+export function createPool(definition: PoolDefinition): Pool {
+  const { name, selector, sticky = true } = definition;
+  if (typeof name !== "string" || !POOL_NAME.test(name)) {
+    throw new SelectorError(`Invalid pool name "${name}", use letters, digits, ".", "_" and "-"`);
+  }
+  if (typeof selector !== "string") {
+    throw new SelectorError(`Pool "${name}" needs a selector`);
+  }
+  const terms = parseSelector(selector);
+  if (terms.some((term) => term.key === "pool")) {
+    throw new SelectorError(`Pool "${name}" cannot be defined in terms of other pools`);
+  }
+  return { name, selector, sticky, terms };
+}
+
+// WIRE_AGENT_POOLS: {"browsers": "platform=browser", "staging": {"selector": "tag=staging", "sticky": false}}
+export function parsePools(json: string): PoolDefinition[] {
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch (err) {
+    throw new SelectorError(`Invalid pool configuration: ${(err as Error).message}`);
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new SelectorError("Pool configuration must be an object of pool names to selectors");
+  }
+
+  return Object.entries(config).map(([name, value]) =>
+    typeof value === "string"
+      ? { name, selector: value }
+      : { name, ...(value as Omit<PoolDefinition, "name">) }
+  );
+}
+
+// Fewest pending requests first, then the lowest latency. Members without a
+// measured latency count as fastest so that new members get tried.
+export function leastBusy(candidates: MemberLoad[]): MemberLoad | undefined {
+  let best: MemberLoad | undefined;
+  for (const candidate of candidates) {
+    if (
+      !best ||
+      candidate.pendingRequests < best.pendingRequests ||
+      (candidate.pendingRequests === best.pendingRequests &&
+        (candidate.latencyMs ?? 0) < (best.latencyMs ?? 0))
+    ) {
+      best = candidate;
+    }
+  }
+  return best;
+}
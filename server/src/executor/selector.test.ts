@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import type { ExecutorRegister } from "@wire-agent/protocol";
+import { isSelector, matchesSelector, parseSelector, SelectorError } from "./selector";
+
+const github: ExecutorRegister = {
+  type: "register",
+  executorId: "browser:tab:1",
+  platform: "browser",
+  capabilities: ["navigate", "click"],
+  meta: { url: "https://github.com/anthropics", title: "Inbox, 3 unread", tabId: 1 },
+  tags: ["staging"],
+};
+
+const desktop: ExecutorRegister = {
+  type: "register",
+  executorId: "desktop:linux:ci-01",
+  platform: "desktop",
+  capabilities: ["shellExec"],
+  meta: { hostname: "ci-01", activeWindow: "Terminal" },
+};
+
+const matches = (selector: string, executor: ExecutorRegister) =>
+  matchesSelector(parseSelector(selector), executor);
+
+describe("selector", () => {
+  it("should tell selectors from executor ids", () => {
+    expect(isSelector("platform=browser")).toBe(true);
+    expect(isSelector("desktop:linux:ci-01")).toBe(false);
+  });
+
+  it("should match platform, capability, tag and id", () => {
+    expect(matches("platform=browser", github)).toBe(true);
+    expect(matches("platform=browser", desktop)).toBe(false);
+    expect(matches("capability=shellExec", desktop)).toBe(true);
+    expect(matches("tag=staging", github)).toBe(true);
+    expect(matches("tag=staging", desktop)).toBe(false);
+    expect(matches("id=desktop:*", desktop)).toBe(true);
+  });
+
+  it("should require every term to match", () => {
+    expect(matches("platform=browser,url=*github.com*", github)).toBe(true);
+    expect(matches("platform=browser, url=*gitlab.com*", github)).toBe(false);
+  });
+
+  it("should match meta fields with globs and regexes", () => {
+    expect(matches("hostname=ci-*", desktop)).toBe(true);
+    expect(matches("activeWindow=/^term/i", desktop)).toBe(true);
+    expect(matches("activeWindow=/^term/", desktop)).toBe(false);
+    expect(matches("tabId=1", github)).toBe(true);
+    expect(matches("url=*", desktop)).toBe(false);
+  });
+
+  it("should allow commas inside regexes", () => {
+    expect(matches("title=/^Inbox, \\d+ unread$/,platform=browser", github)).toBe(true);
+  });
+
+  it("should treat slashes that do not form a regex as part of a glob", () => {
+    const terms = parseSelector("url=https://github.com/*");
+    expect(matchesSelector(terms, github)).toBe(true);
+  });
+
+  it("should reject malformed selectors", () => {
+    expect(() => parseSelector("platform")).toThrow(SelectorError);
+    expect(() => parseSelector("platform=")).toThrow("Missing value");
+    expect(() => parseSelector("title=/(/")).toThrow("Invalid regex");
+    expect(() => parseSelector("")).toThrow("Empty selector");
+  });
+});
@@ -0,0 +1,95 @@
+import type { ExecutorRegister } from "@wire-agent/protocol";
+import { wildcard } from "../policy/policy";
+
+// ============================================================
+// Executor selectors
+// ============================================================
+
+// Comma-separated key=value terms that must all match, e.g.
+// "platform=browser,url=*github.com*" or "tag=staging,title=/^Inbox/i".
+// Values are `*` globs, or regexes when written as /.../flags.
+//
+//   id          executor id
+//   platform    browser, desktop, ...
+//   capability  one of the executor's actions
+//   tag         one of the tags sent at registration
+//   anything else is a meta field (url, title, hostname, activeWindow, ...)
+export interface SelectorTerm {
+  key: string;
+  pattern: RegExp;
+}
+
+export class SelectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SelectorError";
+  }
+}
+
+// Plain executor ids never contain "="
+export function isSelector(text: string): boolean {
+  return text.includes("=");
+}
+
+// A /regex/ value may contain commas; anything else ends at the next comma
+const REGEX_VALUE = String.raw`\/(?:\\.|[^/\\])*\/[imsu]*`;
+const TERM = new RegExp(String.raw`\s*([\w.-]+)\s*=\s*(${REGEX_VALUE}|[^,]*?)\s*(?:,|$)`, "y");
+
+function parseValue(value: string): RegExp {
+  const regex = /^\/((?:\\.|[^/\\])*)\/([imsu]*)$/.exec(value);
+  if (!regex) {
+    return wildcard(value);
+  }
+  try {
+    return new RegExp(regex[1], regex[2]);
+  } catch (err) {
+    throw new SelectorError(`Invalid regex ${value}: ${(err as Error).message}`);
+  }
+}
+
+export function parseSelector(text: string): SelectorTerm[] {
+  const terms: SelectorTerm[] = [];
+  TERM.lastIndex = 0;
+
+  while (TERM.lastIndex < text.length) {
+    const position = TERM.lastIndex;
+    const match = TERM.exec(text);
+    if (!match) {
+      throw new SelectorError(`Invalid selector "${text}" at position ${position}, expected key=value`);
+    }
+    const [, key, value] = match;
+    if (!value) {
+      throw new SelectorError(`Missing value for "${key}" in selector "${text}"`);
+    }
+    terms.push({ key, pattern: parseValue(value) });
+  }
+
+  if (terms.length === 0) {
+    throw new SelectorError("Empty selector");
+  }
+  return terms;
+}
+
+type Selectable = Pick<ExecutorRegister, "executorId" | "platform" | "capabilities" | "meta" | "tags">;
+
+function termMatches({ key, pattern }: SelectorTerm, executor: Selectable): boolean {
+  switch (key) {
+    case "id":
+      return pattern.test(executor.executorId);
+    case "platform":
+      return pattern.test(executor.platform);
+    case "capability":
+      return executor.capabilities.some((capability) => pattern.test(capability));
+    case "tag":
+      return (executor.tags ?? []).some((tag) => pattern.test(tag));
+    default: {
+      const value = (executor.meta as Record<string, unknown>)[key];
+      const scalar = typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+      return scalar && pattern.test(String(value));
+    }
+  }
+}
+
+export function matchesSelector(terms: SelectorTerm[], executor: Selectable): boolean {
+  return terms.every((term) => termMatches(term, executor));
+}
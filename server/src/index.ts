@@ -2,31 +2,116 @@
 
 import { startMcpServer } from "./mcp/server";
 import { startWebSocketServer, stopWebSocketServer } from "./ws/server";
+import { startMetricsServer, stopMetricsServer } from "./metrics/server";
+import { executorManager } from "./executor/manager";
+import { Policy } from "./policy/policy";
+import { parsePools } from "./executor/pool";
+import { parseHealthThresholds } from "./executor/health";
+import path from "path";
+import { auditLog } from "./audit/log";
+import { approvalsCli } from "./cli/approvals";
+import { auditCli } from "./cli/audit";
+import { startDaemon, stopDaemon } from "./daemon/server";
+import { runDaemonClient } from "./daemon/client";
+import { STATE_DIR } from "./daemon/socket";
 import { logger } from "./utils/logger";
 
 const log = logger.child("Main");
 
-async function main() {
-  log.info("Wire Agent starting...");
+// "off" disables the audit log
+const AUDIT_LOG = process.env.WIRE_AGENT_AUDIT_LOG || path.join(STATE_DIR, "audit.jsonl");
+// HMAC key for the hash chain; unset hashes with plain sha256
+const AUDIT_KEY = process.env.WIRE_AGENT_AUDIT_KEY;
+
+// State shared by every MCP client: policy, audit log and the executor socket
+function startServices() {
+  // Refuse to start with a broken policy rather than run unrestricted
+  const policyFile = process.env.WIRE_AGENT_POLICY;
+  if (policyFile) {
+    executorManager.setPolicy(Policy.load(policyFile));
+    log.info(`Policy loaded from ${policyFile}`);
+  }
+
+  const pools = process.env.WIRE_AGENT_POOLS;
+  if (pools) {
+    executorManager.setPools(parsePools(pools));
+    log.info(`Pools: ${executorManager.poolStatus().map((pool) => pool.name).join(", ")}`);
+  }
+
+  const health = process.env.WIRE_AGENT_HEALTH;
+  if (health) {
+    executorManager.setHealthThresholds(parseHealthThresholds(health));
+  }
+
+  const resumeGrace = process.env.WIRE_AGENT_RESUME_GRACE_MS;
+  if (resumeGrace) {
+    executorManager.setResumeGrace(parseInt(resumeGrace, 10));
+  }
+
+  if (AUDIT_LOG !== "off") {
+    auditLog.open(AUDIT_LOG, AUDIT_KEY);
+  }
 
   // Start WebSocket server for executor connections
   startWebSocketServer();
 
+  const metricsPort = process.env.WIRE_AGENT_METRICS_PORT;
+  if (metricsPort) {
+    startMetricsServer(parseInt(metricsPort, 10), process.env.WIRE_AGENT_METRICS_HOST);
+  }
+}
+
+// Everything in this process, serving a single MCP client on stdio
+async function main() {
+  log.info("Wire Agent starting...");
+  startServices();
+
   // Start MCP server on stdio for Claude Code
   await startMcpServer();
 }
 
+// Long-running process serving MCP clients over the daemon socket
+async function daemon() {
+  log.info("Wire Agent daemon starting...");
+  // Bind the socket first so a second daemon exits before touching the port
+  await startDaemon();
+  startServices();
+}
+
 // Graceful shutdown
 function shutdown(signal: string) {
   log.info(`Received ${signal}, shutting down...`);
+  stopDaemon();
   stopWebSocketServer();
+  stopMetricsServer();
   process.exit(0);
 }
 
-process.on("SIGINT", () => shutdown("SIGINT"));
-process.on("SIGTERM", () => shutdown("SIGTERM"));
+function run(start: () => Promise<void>) {
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
 
-main().catch((err) => {
-  log.error("Fatal error", err);
-  process.exit(1);
-});
+  start().catch((err) => {
+    log.error("Fatal error", err);
+    process.exit(1);
+  });
+}
+
+// Subcommands talk to an already running server
+const [command, ...args] = process.argv.slice(2);
+
+if (command === "approvals") {
+  approvalsCli(args).then((code) => process.exit(code));
+} else if (command === "audit") {
+  process.exit(auditCli(args, AUDIT_LOG, AUDIT_KEY));
+} else if (command === "daemon") {
+  run(daemon);
+} else if (process.env.WIRE_AGENT_DAEMON === "off") {
+  run(main);
+} else {
+  // Relay stdio to the shared daemon, starting it if needed
+  runDaemonClient().catch((err) => {
+    log.error("Fatal error", err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BROWSER_CAPABILITIES, DESKTOP_CAPABILITIES } from "@wire-agent/protocol";
+
+// Mock the executor manager
+vi.mock("../executor/manager", () => ({
+  MAX_COMMAND_TIMEOUT: 24 * 60 * 60 * 1000,
+  executorManager: {
+    execute: vi.fn(),
+    list: vi.fn(() => []),
+    poolStatus: vi.fn(() => []),
+    setDefault: vi.fn(),
+    resolve: vi.fn((selector?: string) => ({ ok: true, executorId: selector ?? "desktop:linux:host" })),
+    select: vi.fn(() => ({ ok: true, executorIds: ["chrome", "firefox"] })),
+    fanout: vi.fn(),
+  },
+}));
+
+import { executorManager } from "../executor/manager";
+import { COMMAND_TIMEOUT_MARGIN, ToolRegistry } from "./registry";
+import { toolRegistry } from "./tools";
+
+const execute = executorManager.execute as ReturnType<typeof vi.fn>;
+const fanout = executorManager.fanout as ReturnType<typeof vi.fn>;
+
+describe("ToolRegistry", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("list", () => {
+    it("should expose executorId on every action tool", () => {
+      const tools = toolRegistry.list().filter((t) => t.name.startsWith("ui_") || t.name.startsWith("desktop_"));
+
+      expect(tools.length).toBeGreaterThan(0);
+      for (const tool of tools) {
+        expect(tool.inputSchema.properties).toHaveProperty("executorId");
+      }
+    });
+
+    it("should cover every advertised capability with a tool", () => {
+      const actions = toolRegistry.actions();
+
+      for (const capability of [...BROWSER_CAPABILITIES, ...DESKTOP_CAPABILITIES]) {
+        expect(actions, capability).toContain(capability);
+      }
+    });
+
+    it("should only list action tools supported by the given capabilities", () => {
+      const names = toolRegistry.list(new Set(["click", "mouseClick"])).map((t) => t.name);
+
+      expect(names).toEqual(["executor_list", "executor_use", "executor_acquire", "executor_release", "executor_events", "ui_click", "desktop_mouse_click", "executor_fanout"]);
+    });
+
+    it("should reject duplicate tool names", () => {
+      const registry = new ToolRegistry();
+      const tool = {
+        name: "dup",
+        description: "",
+        inputSchema: { type: "object" as const, properties: {} },
+        handler: () => ({ content: [] }),
+      };
+
+      registry.register(tool);
+      expect(() => registry.register(tool)).toThrow("Tool already registered: dup");
+    });
+  });
+
+  describe("call", () => {
+    it("should dispatch the mapped action with defaults applied", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true });
+
+      const result = await toolRegistry.call("ui_click", { selector: "#go", executorId: "browser" });
+
+      expect(execute).toHaveBeenCalledWith(
+        "click",
+        { selector: "#go", selectorType: "css" },
+        "browser",
+        { timeoutMs: undefined, signal: undefined }
+      );
+      expect(result.content).toEqual([{ type: "text", text: "Clicked: #go" }]);
+    });
+
+    it("should not override explicit params with defaults", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true });
+
+      await toolRegistry.call("ui_highlight", { selector: "p", duration: 0 });
+
+      expect(execute.mock.calls[0][1]).toMatchObject({ duration: 0 });
+    });
+
+    it("should derive the command timeout from the action's own timeout", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true, data: { stdout: "" } });
+
+      const approve = vi.fn().mockResolvedValue({ approved: true, by: "client" });
+      await toolRegistry.call("desktop_shell_exec", { command: "sleep 60", timeout: 60000 }, { approve });
+
+      expect(execute.mock.calls[0][1]).toEqual({ command: "sleep 60", timeout: 60000 });
+      expect(execute.mock.calls[0][3]).toMatchObject({ timeoutMs: 60000 + COMMAND_TIMEOUT_MARGIN });
+    });
+
+    it("should pass an explicit timeoutMs and abort signal to the executor", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true });
+      const controller = new AbortController();
+
+      await toolRegistry.call("ui_click", { selector: "#go", timeoutMs: 1000 }, { signal: controller.signal });
+
+      expect(execute.mock.calls[0][1]).not.toHaveProperty("timeoutMs");
+      expect(execute.mock.calls[0][3]).toEqual({ timeoutMs: 1000, signal: controller.signal });
+    });
+
+    it.each([0, -1, 2.5, 1e12])("should reject a timeoutMs of %d", async (timeoutMs) => {
+      const result = await toolRegistry.call("ui_click", { selector: "#go", timeoutMs });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ code: "INVALID_PARAMS" });
+    });
+
+    it("should ask for approval before dispatching destructive tools", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true, data: { stdout: "ok" } });
+      const approve = vi.fn().mockResolvedValue({ approved: true, by: "client" });
+
+      const result = await toolRegistry.call("desktop_shell_exec", { command: "make clean" }, { approve });
+
+      expect(approve).toHaveBeenCalledWith({
+        tool: "desktop_shell_exec",
+        action: "shellExec",
+        params: { command: "make clean", timeout: 30000 },
+        executorId: "desktop:linux:host",
+      });
+      expect(execute).toHaveBeenCalled();
+      expect(result.isError).toBeUndefined();
+    });
+
+    it("should not dispatch denied tools", async () => {
+      const approve = vi.fn().mockResolvedValue({ approved: false, by: "cli", reason: "not today" });
+
+      const result = await toolRegistry.call("ui_cookie_delete", { name: "session" }, { approve });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toEqual({
+        code: "PERMISSION_DENIED",
+        message: "ui_cookie_delete was not approved: not today",
+      });
+    });
+
+    it("should deny tools requiring approval when nobody can be asked", async () => {
+      const result = await toolRegistry.call("desktop_file_write", { path: "/tmp/x", content: "" });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ code: "PERMISSION_DENIED" });
+    });
+
+    it("should let the approval list be replaced", async () => {
+      const registry = new ToolRegistry([
+        { name: "a", description: "", inputSchema: { type: "object", properties: {} }, action: "a", failure: "", requiresApproval: true },
+        { name: "b", description: "", inputSchema: { type: "object", properties: {} }, action: "b", failure: "" },
+      ]);
+
+      expect(registry.setApprovalRequired(["b", "nope"])).toEqual(["nope"]);
+      expect(registry.get("a")).toMatchObject({ requiresApproval: false });
+      expect(registry.get("b")).toMatchObject({ requiresApproval: true });
+    });
+
+    it("should flag failures as errors carrying the error code", async () => {
+      execute.mockResolvedValue({
+        type: "result",
+        id: "1",
+        success: false,
+        error: "Element not found: #go",
+        code: "ELEMENT_NOT_FOUND",
+      });
+
+      const result = await toolRegistry.call("ui_click", { selector: "#go" });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toEqual({
+        code: "ELEMENT_NOT_FOUND",
+        message: "Failed to click: Element not found: #go",
+      });
+      expect(result.content).toEqual([
+        { type: "text", text: "[ELEMENT_NOT_FOUND] Failed to click: Element not found: #go" },
+      ]);
+    });
+
+    it("should return image content for screenshots", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true, data: "aGVsbG8=" });
+
+      const result = await toolRegistry.call("ui_screenshot", {});
+
+      expect(result.content).toEqual([{ type: "image", data: "aGVsbG8=", mimeType: "image/png" }]);
+    });
+
+    it("should run local tools without dispatching", async () => {
+      const result = await toolRegistry.call("executor_list", {});
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({ executors: [], pools: [] });
+    });
+
+    it("should reject arguments that do not match the input schema, naming the field", async () => {
+      const call = async (args: Record<string, unknown>) =>
+        (await toolRegistry.call("desktop_mouse_click", args)).structuredContent;
+
+      expect(await call({ x: "10", y: 20 })).toEqual({
+        code: "INVALID_PARAMS",
+        message: "Invalid arguments for desktop_mouse_click: x must be a number, got string",
+      });
+      expect(await call({ x: 10 })).toMatchObject({ message: expect.stringContaining("y is required") });
+      expect(await call({ x: 10, y: 20, button: "side" })).toMatchObject({
+        message: expect.stringContaining('button must be one of "left", "right", "middle"'),
+      });
+      expect(await call({ x: 10, y: 20, executorId: 7 })).toMatchObject({ code: "INVALID_PARAMS" });
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it("should accept any of the schemas a oneOf allows", async () => {
+      execute.mockResolvedValue({ type: "result", id: "1", success: true });
+
+      await toolRegistry.call("ui_select", { selector: "#s", value: ["a", "b"] });
+      const result = await toolRegistry.call("ui_select", { selector: "#s", value: 1 });
+
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(result.structuredContent).toMatchObject({
+        message: "Invalid arguments for ui_select: value must be a string or an array",
+      });
+    });
+
+    it("should flag unknown tools as errors", async () => {
+      const result = await toolRegistry.call("nope", {});
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toMatchObject({ code: "NOT_SUPPORTED" });
+    });
+  });
+
+  describe("executor_acquire", () => {
+    it.each([
+      [0, "ttlMs must be at least 1000"],
+      [-5000, "ttlMs must be at least 1000"],
+      [1e12, "ttlMs must be at most 3600000"],
+      [1500.5, "ttlMs must be an integer, got number"],
+    ])("should reject a ttlMs of %d", async (ttlMs, message) => {
+      const result = await toolRegistry.call("executor_acquire", { executorId: "tab-1", ttlMs }, { session: { id: "s1" } });
+
+      expect(result.structuredContent).toEqual({ code: "INVALID_PARAMS", message: `Invalid arguments for executor_acquire: ${message}` });
+    });
+  });
+
+  describe("executor_fanout", () => {
+    const results = [
+      { executorId: "chrome", result: { type: "result", id: "1", success: true, data: "iVBOR" }, durationMs: 120 },
+      {
+        executorId: "firefox",
+        result: { type: "result", id: "2", success: false, code: "TIMEOUT", error: "Request timeout" },
+        durationMs: 30000,
+      },
+    ];
+
+    it("should run the action on every match and summarize the results", async () => {
+      fanout.mockResolvedValue(results);
+
+      const result = await toolRegistry.call("executor_fanout", { selector: "platform=browser", action: "screenshot" });
+
+      expect(fanout).toHaveBeenCalledWith("screenshot", { fullPage: false }, ["chrome", "firefox"], expect.anything());
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toEqual({
+        action: "screenshot",
+        selector: "platform=browser",
+        succeeded: ["chrome"],
+        failed: ["firefox"],
+        results: [
+          { executorId: "chrome", success: true, durationMs: 120 },
+          { executorId: "firefox", success: false, durationMs: 30000, code: "TIMEOUT", error: "Request timeout" },
+        ],
+      });
+      // Screenshots come back as images labelled with their executor
+      expect(result.content.slice(1)).toEqual([
+        { type: "text", text: "chrome:" },
+        { type: "image", data: "iVBOR", mimeType: "image/png" },
+      ]);
+    });
+
+    it("should report progress as executors finish", async () => {
+      fanout.mockImplementation(async (_action, _params, _ids, options) => {
+        results.forEach((r) => options.onResult(r));
+        return results;
+      });
+      const onProgress = vi.fn();
+
+      await toolRegistry.call("executor_fanout", { selector: "platform=browser", action: "screenshot" }, { onProgress });
+
+      expect(onProgress.mock.calls.map(([p]) => [p.progress, p.total, p.message])).toEqual([
+        [1, 2, "chrome: ok"],
+        [2, 2, "firefox: TIMEOUT"],
+      ]);
+    });
+
+    it("should ask for approval once for actions of gated tools", async () => {
+      fanout.mockResolvedValue([]);
+      const approve = vi.fn().mockResolvedValue({ approved: false, reason: "not on prod" });
+
+      const result = await toolRegistry.call(
+        "executor_fanout",
+        { selector: "pool=ci", action: "shellExec", params: { command: "uptime" } },
+        { approve }
+      );
+
+      expect(approve).toHaveBeenCalledWith({
+        tool: "desktop_shell_exec",
+        action: "shellExec",
+        params: { command: "uptime", timeout: 30000 },
+        executorId: "chrome, firefox",
+      });
+      expect(fanout).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ code: "PERMISSION_DENIED" });
+    });
+
+    it("should send the params the action's tool would send", async () => {
+      fanout.mockResolvedValue([]);
+
+      await toolRegistry.call("executor_fanout", {
+        selector: "platform=browser",
+        action: "screenshot",
+        params: { fullPage: true, executorId: "chrome", timeoutMs: 5 },
+      });
+
+      expect(fanout.mock.calls[0][1]).not.toHaveProperty("executorId");
+      expect(fanout.mock.calls[0][1]).not.toHaveProperty("timeoutMs");
+      expect(fanout).toHaveBeenCalledWith("screenshot", { fullPage: true }, ["chrome", "firefox"], expect.anything());
+    });
+
+    it("should validate params against the action's tool", async () => {
+      const result = await toolRegistry.call(
+        "executor_fanout",
+        { selector: "platform=desktop", action: "mouseClick", params: { x: 1 } },
+      );
+
+      expect(fanout).not.toHaveBeenCalled();
+      expect(result.structuredContent).toEqual({
+        code: "INVALID_PARAMS",
+        message: "Invalid params for mouseClick: params.y is required",
+      });
+    });
+
+    it("should reject unknown actions", async () => {
+      const result = await toolRegistry.call("executor_fanout", { selector: "platform=browser", action: "teleport" });
+
+      expect(result.structuredContent).toEqual({ code: "NOT_SUPPORTED", message: "Unknown action: teleport" });
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { validateSchema, type ErrorCode, type ExecuteProgress, type ExecuteResult, type Schema } from "@wire-agent/protocol";
+import { executorManager, MAX_COMMAND_TIMEOUT, type Session } from "../executor/manager";
+import type { ApprovalDecision, ApprovalRequest } from "../approval/queue";
+
+// ============================================================
+// Tool definition types
+// ============================================================
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolContent = CallToolResult["content"][number];
+
+export interface ToolInputSchema {
+  type: "object";
+  properties: Record<string, object>;
+  required?: string[];
+}
+
+interface BaseToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+}
+
+// Tool that is dispatched to an executor as a protocol action
+export interface ActionToolDefinition extends BaseToolDefinition {
+  // Protocol action sent in ExecuteCommand
+  action: string;
+  // Values applied to params the caller left undefined
+  defaults?: ToolArgs;
+  // Custom params mapping (default: every schema property except executorId/timeoutMs)
+  params?: (args: ToolArgs) => Record<string, unknown>;
+  // Formats a successful result (default: pretty-printed JSON of data)
+  format?: (data: unknown, args: ToolArgs) => string | ToolContent[];
+  // Prefix for the failure message, e.g. "Failed to click"
+  failure: string;
+  // Command timeout derived from the action's own params (e.g. shellExec's timeout)
+  timeoutMs?: (args: ToolArgs) => number | undefined;
+  // Ask the user before dispatching (destructive tools)
+  requiresApproval?: boolean;
+}
+
+// Tool that is handled by the server itself
+export interface LocalToolDefinition extends BaseToolDefinition {
+  handler: (args: ToolArgs, options: CallOptions) => CallToolResult | Promise<CallToolResult>;
+}
+
+export type ToolDefinition = ActionToolDefinition | LocalToolDefinition;
+
+export function isActionTool(tool: ToolDefinition): tool is ActionToolDefinition {
+  return "action" in tool;
+}
+
+// ============================================================
+// Shared schema fragments
+// ============================================================
+
+export const executorIdProperty = {
+  type: "string",
+  description:
+    "Target executor ID, selector such as \"platform=browser,url=*github.com*\" or \"tag=staging\", " +
+    "or pool such as \"pool=browsers\" (optional, uses default if not specified)",
+};
+
+export const timeoutMsProperty = {
+  type: "integer",
+  minimum: 1,
+  maximum: MAX_COMMAND_TIMEOUT,
+  description: "Give up after this many ms and cancel the command on the executor (default: 30000)",
+};
+
+// Extra time allowed on top of an action's own timeout before the server gives up
+export const COMMAND_TIMEOUT_MARGIN = 5000;
+
+// Tool args consumed by the server rather than passed to the executor
+const ROUTING_ARGS = new Set(["executorId", "timeoutMs"]);
+
+export interface CallOptions {
+  // MCP session making the call, for its default executor and leases
+  session?: Session;
+  // Aborted when the MCP client cancels the request
+  signal?: AbortSignal;
+  // Receives executor progress while the command runs
+  onProgress?: (progress: ExecuteProgress) => void;
+  // Asks the user to approve tools that require it; without it they are denied
+  approve?: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+}
+
+export const selectorTypeProperty = {
+  type: "string",
+  enum: ["css", "xpath", "accessibility", "text"],
+  description: "Type of selector (default: css)",
+};
+
+export function textResult(text: string): CallToolResult {
+  return { content: [{ type: "text", text }] };
+}
+
+// Failed tool call: the code leads the text for agents and is repeated in
+// structuredContent for scripts
+export function errorResult(code: ErrorCode, message: string): CallToolResult {
+  return {
+    content: [{ type: "text", text: `[${code}] ${message}` }],
+    structuredContent: { code, message },
+    isError: true,
+  };
+}
+
+// ============================================================
+// Registry
+// ============================================================
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  constructor(definitions: ToolDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+
+    // Every action tool can be routed to a specific executor and given its own timeout
+    if (isActionTool(definition)) {
+      const { properties } = definition.inputSchema;
+      properties.executorId ??= executorIdProperty;
+      properties.timeoutMs ??= timeoutMsProperty;
+    }
+
+    this.tools.set(definition.name, definition);
+  }
+
+  // Replace which action tools require approval; returns names that are not action tools
+  setApprovalRequired(names: string[]): string[] {
+    const wanted = new Set(names);
+    for (const tool of this.tools.values()) {
+      if (isActionTool(tool)) {
+        tool.requiresApproval = wanted.delete(tool.name);
+      }
+    }
+    return Array.from(wanted);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  // Tool list for ListTools. When capabilities are given, action tools are
+  // only included if some connected executor supports their action.
+  list(capabilities?: Set<string>): Tool[] {
+    return Array.from(this.tools.values())
+      .filter((tool) => !capabilities || !isActionTool(tool) || capabilities.has(tool.action))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: {
+          ...tool.inputSchema,
+          required: tool.inputSchema.required ?? [],
+        },
+      }));
+  }
+
+  // Tools that send this protocol action
+  actionTools(action: string): ActionToolDefinition[] {
+    return Array.from(this.tools.values()).filter(
+      (tool): tool is ActionToolDefinition => isActionTool(tool) && tool.action === action
+    );
+  }
+
+  // Protocol actions covered by at least one tool
+  actions(): Set<string> {
+    const actions = new Set<string>();
+    for (const tool of this.tools.values()) {
+      if (isActionTool(tool)) actions.add(tool.action);
+    }
+    return actions;
+  }
+
+  async call(name: string, args: ToolArgs, options: CallOptions = {}): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return errorResult("NOT_SUPPORTED", `Unknown tool: ${name}`);
+    }
+
+    const invalid = validateArgs(tool, args);
+    if (invalid) {
+      return errorResult("INVALID_PARAMS", `Invalid arguments for ${name}: ${invalid}`);
+    }
+
+    if (!isActionTool(tool)) {
+      return tool.handler(args, options);
+    }
+
+    const { resolved, params } = resolveParams(tool, args);
+    const executorId = args.executorId as string | undefined;
+
+    if (tool.requiresApproval) {
+      // Show the user which executor a selector or the default stands for
+      const target = executorManager.resolve(executorId, options.session?.id);
+      const decision = options.approve
+        ? await options.approve({
+            tool: name,
+            action: tool.action,
+            params,
+            executorId: target.ok ? target.executorId : executorId,
+          })
+        : { approved: false, reason: "No way to ask for approval" };
+      if (!decision.approved) {
+        return errorResult("PERMISSION_DENIED", `${name} was not approved: ${decision.reason ?? "denied"}`);
+      }
+    }
+
+    const timeoutMs = (args.timeoutMs as number | undefined) ?? tool.timeoutMs?.(resolved);
+    const result = await executorManager.execute(tool.action, params, executorId, {
+      timeoutMs,
+      session: options.session,
+      signal: options.signal,
+      onProgress: options.onProgress,
+    });
+    return formatResult(tool, result, resolved);
+  }
+}
+
+// What is wrong with args for this tool's input schema, naming the field, or null
+export function validateArgs(tool: ToolDefinition, args: ToolArgs, path?: string): string | null {
+  return validateSchema(tool.inputSchema as Schema, args, path);
+}
+
+function applyDefaults(tool: ActionToolDefinition, args: ToolArgs): ToolArgs {
+  const resolved: ToolArgs = { ...args };
+  for (const [key, value] of Object.entries(tool.defaults ?? {})) {
+    if (resolved[key] === undefined) {
+      resolved[key] = value;
+    }
+  }
+  return resolved;
+}
+
+// The args with defaults applied, and the params they map to for the action
+export function resolveParams(
+  tool: ActionToolDefinition,
+  args: ToolArgs
+): { resolved: ToolArgs; params: Record<string, unknown> } {
+  const resolved = applyDefaults(tool, args);
+  return { resolved, params: tool.params ? tool.params(resolved) : pickParams(tool, resolved) };
+}
+
+function pickParams(tool: ActionToolDefinition, args: ToolArgs): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const key of Object.keys(tool.inputSchema.properties)) {
+    if (ROUTING_ARGS.has(key)) continue;
+    params[key] = args[key];
+  }
+  return params;
+}
+
+function formatResult(
+  tool: ActionToolDefinition,
+  result: ExecuteResult,
+  args: ToolArgs
+): CallToolResult {
+  if (!result.success) {
+    return errorResult(result.code ?? "EXECUTION_FAILED", `${tool.failure}: ${result.error}`);
+  }
+
+  if (!tool.format) {
+    return textResult(JSON.stringify(result.data ?? null, null, 2));
+  }
+
+  const formatted = tool.format(result.data, args);
+  return typeof formatted === "string"
+    ? textResult(formatted)
+    : { content: formatted };
+}
@@ -0,0 +1,1159 @@
+import { COMMAND_TIMEOUT_MARGIN, selectorTypeProperty, type ToolDefinition } from "../registry";
+
+// Element tool schema: selector + selectorType
+function selectorSchema(description: string) {
+  return {
+    type: "object" as const,
+    properties: {
+      selector: { type: "string", description },
+      selectorType: selectorTypeProperty,
+    },
+    required: ["selector"],
+  };
+}
+
+const emptySchema = () => ({ type: "object" as const, properties: {} });
+
+const json = (data: unknown) => JSON.stringify(data, null, 2);
+
+// ============================================================
+// Basic interaction tools
+// ============================================================
+const interactionTools: ToolDefinition[] = [
+  {
+    name: "ui_navigate",
+    description: "Navigate to a URL in the browser or open a deep link in mobile app",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "The URL to navigate to" },
+      },
+      required: ["url"],
+    },
+    action: "navigate",
+    format: (_data, { url }) => `Navigated to: ${url}`,
+    failure: "Failed to navigate",
+  },
+  {
+    name: "ui_click",
+    description: "Click on an element identified by selector",
+    inputSchema: selectorSchema("CSS selector, XPath, or accessibility ID"),
+    action: "click",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Clicked: ${selector}`,
+    failure: "Failed to click",
+  },
+  {
+    name: "ui_type",
+    description: "Type text into an input element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector, XPath, or accessibility ID of the input" },
+        text: { type: "string", description: "Text to type" },
+        selectorType: selectorTypeProperty,
+        clearFirst: { type: "boolean", description: "Clear existing content before typing (default: false)" },
+      },
+      required: ["selector", "text"],
+    },
+    action: "type",
+    defaults: { selectorType: "css", clearFirst: false },
+    format: (_data, { selector, text }) => `Typed "${text}" into: ${selector}`,
+    failure: "Failed to type",
+  },
+  {
+    name: "ui_scroll",
+    description: "Scroll the page or a specific element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        direction: {
+          type: "string",
+          enum: ["up", "down", "left", "right"],
+          description: "Scroll direction",
+        },
+        amount: { type: "number", description: "Scroll amount in pixels (default: 300)" },
+        selector: { type: "string", description: "Element to scroll (scrolls page if not specified)" },
+      },
+      required: ["direction"],
+    },
+    action: "scroll",
+    defaults: { amount: 300 },
+    format: (_data, { direction, selector }) =>
+      `Scrolled ${direction}${selector ? ` in ${selector}` : ""}`,
+    failure: "Failed to scroll",
+  },
+  {
+    name: "ui_screenshot",
+    description: "Take a screenshot of the page or a specific element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element to screenshot (full page if not specified)" },
+        fullPage: { type: "boolean", description: "Capture full scrollable page (default: false)" },
+      },
+    },
+    action: "screenshot",
+    defaults: { fullPage: false },
+    format: (data) => [{ type: "image", data: data as string, mimeType: "image/png" }],
+    failure: "Failed to take screenshot",
+  },
+  {
+    name: "ui_get_content",
+    description: "Get text content or HTML of the page or a specific element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector (entire page if not specified)" },
+        includeHtml: { type: "boolean", description: "Include HTML structure (default: false, text only)" },
+      },
+    },
+    action: "getContent",
+    defaults: { includeHtml: false },
+    format: (data) => data as string,
+    failure: "Failed to get content",
+  },
+  {
+    name: "ui_get_attribute",
+    description: "Get an attribute value from an element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector" },
+        attribute: { type: "string", description: "Attribute name to get" },
+      },
+      required: ["selector", "attribute"],
+    },
+    action: "getAttribute",
+    format: (data, { attribute }) => `${attribute}="${data}"`,
+    failure: "Failed to get attribute",
+  },
+  {
+    name: "ui_wait",
+    description: "Wait for an element to appear or for a specified duration",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element to wait for" },
+        timeout: { type: "number", description: "Maximum wait time in ms (default: 5000)" },
+        state: {
+          type: "string",
+          enum: ["visible", "hidden", "attached", "detached"],
+          description: "Element state to wait for (default: visible)",
+        },
+      },
+    },
+    action: "wait",
+    defaults: { timeout: 5000, state: "visible" },
+    timeoutMs: ({ timeout }) => (timeout as number) + COMMAND_TIMEOUT_MARGIN,
+    format: (_data, { selector, timeout }) =>
+      selector ? `Element found: ${selector}` : `Waited ${timeout}ms`,
+    failure: "Wait failed",
+  },
+  {
+    name: "ui_eval",
+    description: "Execute JavaScript in the page context (browser) or equivalent script (mobile)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        script: { type: "string", description: "JavaScript code to execute" },
+      },
+      required: ["script"],
+    },
+    action: "eval",
+    format: (data) => `Result: ${JSON.stringify(data)}`,
+    failure: "Eval failed",
+  },
+  {
+    name: "ui_hover",
+    description: "Hover over an element",
+    inputSchema: selectorSchema("CSS selector, XPath, or accessibility ID"),
+    action: "hover",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Hovered: ${selector}`,
+    failure: "Failed to hover",
+  },
+  {
+    name: "ui_double_click",
+    description: "Double-click on an element",
+    inputSchema: selectorSchema("CSS selector, XPath, or accessibility ID"),
+    action: "doubleClick",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Double-clicked: ${selector}`,
+    failure: "Failed to double-click",
+  },
+  {
+    name: "ui_right_click",
+    description: "Right-click (context menu) on an element",
+    inputSchema: selectorSchema("CSS selector, XPath, or accessibility ID"),
+    action: "rightClick",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Right-clicked: ${selector}`,
+    failure: "Failed to right-click",
+  },
+  {
+    name: "ui_keyboard",
+    description: "Press a keyboard key or key combination",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description: "Key to press (e.g., 'Enter', 'Tab', 'Escape', 'a', 'ArrowDown')",
+        },
+        modifiers: {
+          type: "array",
+          items: { type: "string", enum: ["ctrl", "alt", "shift", "meta"] },
+          description: "Modifier keys to hold (e.g., ['ctrl', 'shift'])",
+        },
+        selector: { type: "string", description: "Element to focus before pressing key (optional)" },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["key"],
+    },
+    action: "keyboard",
+    defaults: { modifiers: [], selectorType: "css" },
+    format: (_data, { key, modifiers }) => {
+      const mods = modifiers as string[];
+      return `Pressed: ${mods.length ? `${mods.join("+")}+${key}` : key}`;
+    },
+    failure: "Failed to press key",
+  },
+  {
+    name: "ui_drag_drop",
+    description: "Drag an element and drop it on another element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sourceSelector: { type: "string", description: "Selector for the element to drag" },
+        targetSelector: { type: "string", description: "Selector for the drop target" },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["sourceSelector", "targetSelector"],
+    },
+    action: "dragDrop",
+    defaults: { selectorType: "css" },
+    format: (_data, { sourceSelector, targetSelector }) =>
+      `Dragged ${sourceSelector} to ${targetSelector}`,
+    failure: "Failed to drag-drop",
+  },
+  {
+    name: "ui_highlight",
+    description: "Highlight elements on the page for visual debugging",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element(s) to highlight (highlights all matches)" },
+        selectorType: selectorTypeProperty,
+        color: { type: "string", description: "Highlight color (default: 'rgba(255, 0, 0, 0.3)')" },
+        duration: {
+          type: "number",
+          description: "Duration in ms before removing highlight (default: 2000, 0 for permanent)",
+        },
+      },
+    },
+    action: "highlight",
+    defaults: { selectorType: "css", color: "rgba(255, 0, 0, 0.3)", duration: 2000 },
+    format: (_data, { selector }) =>
+      selector ? `Highlighted: ${selector}` : "Cleared all highlights",
+    failure: "Failed to highlight",
+  },
+  {
+    name: "ui_select",
+    description: "Select option(s) from a dropdown/select element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Selector for the select element" },
+        value: {
+          oneOf: [
+            { type: "string" },
+            { type: "array", items: { type: "string" } },
+          ],
+          description: "Value(s) to select (use array for multi-select)",
+        },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["selector", "value"],
+    },
+    action: "select",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector, value }) => `Selected ${JSON.stringify(value)} in ${selector}`,
+    failure: "Failed to select",
+  },
+  {
+    name: "ui_focus",
+    description: "Focus on an element",
+    inputSchema: selectorSchema("CSS selector, XPath, or accessibility ID"),
+    action: "focus",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Focused: ${selector}`,
+    failure: "Failed to focus",
+  },
+  {
+    name: "ui_blur",
+    description: "Remove focus from an element",
+    inputSchema: selectorSchema("CSS selector, XPath, or accessibility ID"),
+    action: "blur",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Blurred: ${selector}`,
+    failure: "Failed to blur",
+  },
+];
+
+// ============================================================
+// Tab management
+// ============================================================
+const tabTools: ToolDefinition[] = [
+  {
+    name: "ui_tab_list",
+    description: "List all open browser tabs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        windowId: { type: "number", description: "Filter by window ID (optional)" },
+      },
+    },
+    action: "tabList",
+    failure: "Failed to list tabs",
+  },
+  {
+    name: "ui_tab_create",
+    description: "Create a new browser tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to open (default: about:blank)" },
+        active: { type: "boolean", description: "Make the new tab active (default: true)" },
+      },
+    },
+    action: "tabCreate",
+    format: (data) => `Created tab: ${JSON.stringify(data)}`,
+    failure: "Failed to create tab",
+  },
+  {
+    name: "ui_tab_close",
+    description: "Close a browser tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number", description: "Tab ID to close (uses current if not specified)" },
+      },
+    },
+    action: "tabClose",
+    format: () => "Tab closed",
+    failure: "Failed to close tab",
+  },
+  {
+    name: "ui_tab_activate",
+    description: "Activate/focus a specific tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number", description: "Tab ID to activate" },
+      },
+      required: ["tabId"],
+    },
+    action: "tabActivate",
+    format: (_data, { tabId }) => `Activated tab ${tabId}`,
+    failure: "Failed to activate tab",
+  },
+  {
+    name: "ui_tab_reload",
+    description: "Reload a browser tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number", description: "Tab ID to reload (uses current if not specified)" },
+        bypassCache: { type: "boolean", description: "Bypass cache (default: false)" },
+      },
+    },
+    action: "tabReload",
+    format: () => "Tab reloaded",
+    failure: "Failed to reload tab",
+  },
+  {
+    name: "ui_tab_duplicate",
+    description: "Duplicate a browser tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabId: { type: "number", description: "Tab ID to duplicate (uses current if not specified)" },
+      },
+    },
+    action: "tabDuplicate",
+    format: (data) => `Duplicated tab: ${JSON.stringify(data)}`,
+    failure: "Failed to duplicate tab",
+  },
+];
+
+// ============================================================
+// Navigation
+// ============================================================
+const navigationTools: ToolDefinition[] = [
+  {
+    name: "ui_go_back",
+    description: "Navigate back in browser history",
+    inputSchema: emptySchema(),
+    action: "goBack",
+    format: () => "Navigated back",
+    failure: "Failed to go back",
+  },
+  {
+    name: "ui_go_forward",
+    description: "Navigate forward in browser history",
+    inputSchema: emptySchema(),
+    action: "goForward",
+    format: () => "Navigated forward",
+    failure: "Failed to go forward",
+  },
+  {
+    name: "ui_get_url",
+    description: "Get the current page URL",
+    inputSchema: emptySchema(),
+    action: "getUrl",
+    format: (data) => String(data),
+    failure: "Failed to get URL",
+  },
+  {
+    name: "ui_get_title",
+    description: "Get the current page title",
+    inputSchema: emptySchema(),
+    action: "getTitle",
+    format: (data) => String(data),
+    failure: "Failed to get title",
+  },
+];
+
+// ============================================================
+// Storage & cookies
+// ============================================================
+const storageTypeProperty = {
+  type: "string",
+  enum: ["local", "session"],
+  description: "Storage type (default: local)",
+};
+
+const storageTools: ToolDefinition[] = [
+  {
+    name: "ui_storage_get",
+    description: "Get a value from localStorage or sessionStorage",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Storage key" },
+        storageType: storageTypeProperty,
+      },
+      required: ["key"],
+    },
+    action: "storageGet",
+    format: (data) => (data !== null ? String(data) : "(null)"),
+    failure: "Failed to get storage",
+  },
+  {
+    name: "ui_storage_set",
+    description: "Set a value in localStorage or sessionStorage",
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Storage key" },
+        value: { type: "string", description: "Value to store" },
+        storageType: storageTypeProperty,
+      },
+      required: ["key", "value"],
+    },
+    action: "storageSet",
+    defaults: { storageType: "local" },
+    format: (_data, { key, storageType }) => `Set ${key} in ${storageType}Storage`,
+    failure: "Failed to set storage",
+  },
+  {
+    name: "ui_storage_clear",
+    description: "Clear localStorage or sessionStorage",
+    inputSchema: {
+      type: "object",
+      properties: {
+        storageType: storageTypeProperty,
+      },
+    },
+    action: "storageClear",
+    defaults: { storageType: "local" },
+    format: (_data, { storageType }) => `Cleared ${storageType}Storage`,
+    failure: "Failed to clear storage",
+    requiresApproval: true,
+  },
+  {
+    name: "ui_cookie_get",
+    description: "Get a specific cookie by name",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Cookie name" },
+        url: { type: "string", description: "URL context (uses current page if not specified)" },
+      },
+      required: ["name"],
+    },
+    action: "cookieGet",
+    failure: "Failed to get cookie",
+  },
+  {
+    name: "ui_cookie_set",
+    description: "Set a cookie",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Cookie name" },
+        value: { type: "string", description: "Cookie value" },
+        url: { type: "string", description: "URL context" },
+        domain: { type: "string", description: "Cookie domain" },
+        path: { type: "string", description: "Cookie path" },
+        secure: { type: "boolean", description: "Secure cookie" },
+        httpOnly: { type: "boolean", description: "HTTP only cookie" },
+        expirationDate: { type: "number", description: "Expiration timestamp" },
+        sameSite: {
+          type: "string",
+          enum: ["no_restriction", "lax", "strict"],
+          description: "SameSite attribute",
+        },
+      },
+      required: ["name", "value"],
+    },
+    action: "cookieSet",
+    format: (_data, { name }) => `Set cookie: ${name}`,
+    failure: "Failed to set cookie",
+  },
+  {
+    name: "ui_cookie_delete",
+    description: "Delete a cookie",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Cookie name" },
+        url: { type: "string", description: "URL context (uses current page if not specified)" },
+      },
+      required: ["name"],
+    },
+    action: "cookieDelete",
+    format: (_data, { name }) => `Deleted cookie: ${name}`,
+    failure: "Failed to delete cookie",
+    requiresApproval: true,
+  },
+  {
+    name: "ui_cookie_get_all",
+    description: "Get all cookies for a URL or domain",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to get cookies for" },
+        domain: { type: "string", description: "Domain to get cookies for" },
+      },
+    },
+    action: "cookieGetAll",
+    failure: "Failed to get cookies",
+  },
+];
+
+// ============================================================
+// Forms
+// ============================================================
+const formTools: ToolDefinition[] = [
+  {
+    name: "ui_form_submit",
+    description: "Submit a form",
+    inputSchema: selectorSchema("Form selector"),
+    action: "formSubmit",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Submitted form: ${selector}`,
+    failure: "Failed to submit form",
+    requiresApproval: true,
+  },
+  {
+    name: "ui_form_reset",
+    description: "Reset a form to its initial values",
+    inputSchema: selectorSchema("Form selector"),
+    action: "formReset",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Reset form: ${selector}`,
+    failure: "Failed to reset form",
+  },
+  {
+    name: "ui_checkbox",
+    description: "Set checkbox or radio button state",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Checkbox/radio selector" },
+        checked: { type: "boolean", description: "Checked state" },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["selector", "checked"],
+    },
+    action: "checkbox",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector, checked }) => `Set checkbox ${selector} to ${checked}`,
+    failure: "Failed to set checkbox",
+  },
+  {
+    name: "ui_file_upload",
+    description: "Attach files to a file input element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "File input selector" },
+        files: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "File name" },
+              content: { type: "string", description: "Base64-encoded file content" },
+              mimeType: { type: "string", description: "MIME type (optional)" },
+            },
+            required: ["name", "content"],
+          },
+          description: "Files to attach",
+        },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["selector", "files"],
+    },
+    action: "fileUpload",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector, files }) =>
+      `Attached ${(files as unknown[]).length} file(s) to: ${selector}`,
+    failure: "Failed to upload files",
+  },
+];
+
+// ============================================================
+// Element queries
+// ============================================================
+const queryTools: ToolDefinition[] = [
+  {
+    name: "ui_query_selector",
+    description: "Find a single element and return basic info",
+    inputSchema: selectorSchema("Element selector"),
+    action: "querySelector",
+    defaults: { selectorType: "css" },
+    failure: "Failed to query",
+  },
+  {
+    name: "ui_query_selector_all",
+    description: "Find all matching elements and return their info",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector" },
+        selectorType: selectorTypeProperty,
+        limit: { type: "number", description: "Maximum number of elements to return (default: 100)" },
+      },
+      required: ["selector"],
+    },
+    action: "querySelectorAll",
+    defaults: { selectorType: "css" },
+    failure: "Failed to query",
+  },
+  {
+    name: "ui_get_element_info",
+    description: "Get detailed information about an element",
+    inputSchema: selectorSchema("Element selector"),
+    action: "getElementInfo",
+    defaults: { selectorType: "css" },
+    failure: "Failed to get element info",
+  },
+  {
+    name: "ui_get_bounding_rect",
+    description: "Get element bounding rectangle (position and size)",
+    inputSchema: selectorSchema("Element selector"),
+    action: "getBoundingRect",
+    defaults: { selectorType: "css" },
+    failure: "Failed to get bounding rect",
+  },
+  {
+    name: "ui_is_visible",
+    description: "Check if an element is visible",
+    inputSchema: selectorSchema("Element selector"),
+    action: "isVisible",
+    defaults: { selectorType: "css" },
+    format: (data) => `visible: ${data}`,
+    failure: "Failed to check visibility",
+  },
+  {
+    name: "ui_is_enabled",
+    description: "Check if an element is enabled (not disabled)",
+    inputSchema: selectorSchema("Element selector"),
+    action: "isEnabled",
+    defaults: { selectorType: "css" },
+    format: (data) => `enabled: ${data}`,
+    failure: "Failed to check enabled",
+  },
+  {
+    name: "ui_element_exists",
+    description: "Check if an element exists in the DOM",
+    inputSchema: selectorSchema("Element selector"),
+    action: "elementExists",
+    defaults: { selectorType: "css" },
+    format: (data) => `exists: ${data}`,
+    failure: "Failed to check existence",
+  },
+  {
+    name: "ui_count_elements",
+    description: "Count matching elements",
+    inputSchema: selectorSchema("Element selector"),
+    action: "countElements",
+    defaults: { selectorType: "css" },
+    format: (data) => `count: ${data}`,
+    failure: "Failed to count elements",
+  },
+];
+
+// ============================================================
+// Frames
+// ============================================================
+const frameTools: ToolDefinition[] = [
+  {
+    name: "ui_get_frames",
+    description: "Get all iframes/frames on the page",
+    inputSchema: emptySchema(),
+    action: "getFrames",
+    failure: "Failed to get frames",
+  },
+  {
+    name: "ui_switch_to_frame",
+    description: "Switch subsequent element commands into an iframe, by selector or index",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Frame element selector" },
+        index: { type: "number", description: "Frame index (used when selector is not specified)" },
+        selectorType: selectorTypeProperty,
+      },
+    },
+    action: "switchToFrame",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector, index }) => `Switched to frame: ${selector ?? `#${index}`}`,
+    failure: "Failed to switch frame",
+  },
+  {
+    name: "ui_switch_to_main",
+    description: "Switch element commands back to the top-level document",
+    inputSchema: emptySchema(),
+    action: "switchToMain",
+    format: () => "Switched to main document",
+    failure: "Failed to switch to main document",
+  },
+];
+
+// ============================================================
+// Screenshots & PDF
+// ============================================================
+const captureTools: ToolDefinition[] = [
+  {
+    name: "ui_screenshot_full_page",
+    description: "Take a screenshot of the entire scrollable page",
+    inputSchema: emptySchema(),
+    action: "screenshotFullPage",
+    format: (data) => [{ type: "image", data: data as string, mimeType: "image/png" }],
+    failure: "Failed to take screenshot",
+  },
+  {
+    name: "ui_screenshot_element",
+    description: "Take a screenshot of a single element",
+    inputSchema: selectorSchema("Element selector"),
+    action: "screenshotElement",
+    defaults: { selectorType: "css" },
+    format: (data) => [{ type: "image", data: data as string, mimeType: "image/png" }],
+    failure: "Failed to take screenshot",
+  },
+  {
+    name: "ui_print_to_pdf",
+    description: "Print the current page to PDF (returns base64-encoded PDF)",
+    inputSchema: emptySchema(),
+    action: "printToPdf",
+    format: (data) => [
+      {
+        type: "resource",
+        resource: {
+          uri: "wire-agent://print-to-pdf",
+          mimeType: "application/pdf",
+          blob: data as string,
+        },
+      },
+    ],
+    failure: "Failed to print to PDF",
+  },
+];
+
+// ============================================================
+// Text operations
+// ============================================================
+const textTools: ToolDefinition[] = [
+  {
+    name: "ui_select_text",
+    description: "Select text within an element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector" },
+        start: { type: "number", description: "Start position (optional)" },
+        end: { type: "number", description: "End position (optional)" },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["selector"],
+    },
+    action: "selectText",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Selected text in: ${selector}`,
+    failure: "Failed to select text",
+  },
+  {
+    name: "ui_copy_text",
+    description: "Copy text to clipboard (from element or selection)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element to copy from (copies selection if not specified)" },
+        selectorType: selectorTypeProperty,
+      },
+    },
+    action: "copyText",
+    defaults: { selectorType: "css" },
+    format: (data) => `Copied: ${data}`,
+    failure: "Failed to copy text",
+  },
+  {
+    name: "ui_get_text",
+    description: "Get text content of an element",
+    inputSchema: selectorSchema("Element selector"),
+    action: "getText",
+    defaults: { selectorType: "css" },
+    format: (data) => String(data),
+    failure: "Failed to get text",
+  },
+];
+
+// ============================================================
+// Media control
+// ============================================================
+const mediaTools: ToolDefinition[] = [
+  {
+    name: "ui_media_play",
+    description: "Play a video or audio element",
+    inputSchema: selectorSchema("Media element selector"),
+    action: "mediaPlay",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Playing: ${selector}`,
+    failure: "Failed to play",
+  },
+  {
+    name: "ui_media_pause",
+    description: "Pause a video or audio element",
+    inputSchema: selectorSchema("Media element selector"),
+    action: "mediaPause",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Paused: ${selector}`,
+    failure: "Failed to pause",
+  },
+  {
+    name: "ui_media_set_volume",
+    description: "Set volume of a media element (0-1)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Media element selector" },
+        volume: { type: "number", description: "Volume level (0-1)" },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["selector", "volume"],
+    },
+    action: "mediaSetVolume",
+    defaults: { selectorType: "css" },
+    format: (_data, { volume }) => `Set volume to ${volume}`,
+    failure: "Failed to set volume",
+  },
+  {
+    name: "ui_media_get_state",
+    description: "Get current state of a media element",
+    inputSchema: selectorSchema("Media element selector"),
+    action: "mediaGetState",
+    defaults: { selectorType: "css" },
+    failure: "Failed to get media state",
+  },
+];
+
+// ============================================================
+// Position-based operations & element state
+// ============================================================
+const positionTools: ToolDefinition[] = [
+  {
+    name: "ui_click_at_position",
+    description: "Click at specific x,y coordinates on the page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate" },
+        y: { type: "number", description: "Y coordinate" },
+        button: {
+          type: "string",
+          enum: ["left", "right", "middle"],
+          description: "Mouse button (default: left)",
+        },
+      },
+      required: ["x", "y"],
+    },
+    action: "clickAtPosition",
+    defaults: { button: "left" },
+    format: (_data, { x, y }) => `Clicked at (${x}, ${y})`,
+    failure: "Failed to click",
+  },
+  {
+    name: "ui_hover_at_position",
+    description: "Hover at specific x,y coordinates on the page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate" },
+        y: { type: "number", description: "Y coordinate" },
+      },
+      required: ["x", "y"],
+    },
+    action: "hoverAtPosition",
+    format: (_data, { x, y }) => `Hovered at (${x}, ${y})`,
+    failure: "Failed to hover",
+  },
+  {
+    name: "ui_scroll_into_view",
+    description: "Scroll an element into the visible area",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector" },
+        selectorType: selectorTypeProperty,
+        behavior: {
+          type: "string",
+          enum: ["auto", "smooth"],
+          description: "Scroll behavior (default: smooth)",
+        },
+        block: {
+          type: "string",
+          enum: ["start", "center", "end", "nearest"],
+          description: "Vertical alignment (default: center)",
+        },
+      },
+      required: ["selector"],
+    },
+    action: "scrollIntoView",
+    defaults: { selectorType: "css" },
+    format: (_data, { selector }) => `Scrolled into view: ${selector}`,
+    failure: "Failed to scroll",
+  },
+  {
+    name: "ui_get_computed_style",
+    description: "Get computed CSS styles of an element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector" },
+        property: {
+          type: "string",
+          description: "Specific CSS property (returns common styles if not specified)",
+        },
+        selectorType: selectorTypeProperty,
+      },
+      required: ["selector"],
+    },
+    action: "getComputedStyle",
+    defaults: { selectorType: "css" },
+    failure: "Failed to get style",
+  },
+  {
+    name: "ui_get_scroll_position",
+    description: "Get scroll position of page or element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element selector (page scroll if not specified)" },
+        selectorType: selectorTypeProperty,
+      },
+    },
+    action: "getScrollPosition",
+    defaults: { selectorType: "css" },
+    failure: "Failed to get scroll position",
+  },
+  {
+    name: "ui_set_scroll_position",
+    description: "Set scroll position of page or element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "Horizontal scroll position" },
+        y: { type: "number", description: "Vertical scroll position" },
+        selector: { type: "string", description: "Element selector (page scroll if not specified)" },
+        selectorType: selectorTypeProperty,
+        behavior: {
+          type: "string",
+          enum: ["auto", "smooth"],
+          description: "Scroll behavior (default: auto)",
+        },
+      },
+      required: ["x", "y"],
+    },
+    action: "setScrollPosition",
+    defaults: { selectorType: "css" },
+    format: (_data, { x, y }) => `Scrolled to (${x}, ${y})`,
+    failure: "Failed to set scroll position",
+  },
+];
+
+// ============================================================
+// Debugging: performance, console, dialogs, downloads, window info
+// ============================================================
+const debugTools: ToolDefinition[] = [
+  {
+    name: "ui_get_performance",
+    description: "Get page performance metrics",
+    inputSchema: emptySchema(),
+    action: "getPerformance",
+    failure: "Failed to get performance",
+  },
+  {
+    name: "ui_get_console_logs",
+    description: "Get console messages captured from the page",
+    inputSchema: {
+      type: "object",
+      properties: {
+        level: {
+          type: "string",
+          enum: ["log", "warn", "error", "info", "debug", "all"],
+          description: "Log level to return (default: all)",
+        },
+        limit: { type: "number", description: "Maximum number of entries to return (default: 100)" },
+      },
+    },
+    action: "getConsoleLogs",
+    defaults: { level: "all" },
+    failure: "Failed to get console logs",
+  },
+  {
+    name: "ui_clear_console_logs",
+    description: "Clear console messages captured from the page",
+    inputSchema: emptySchema(),
+    action: "clearConsoleLogs",
+    format: () => "Console logs cleared",
+    failure: "Failed to clear console logs",
+  },
+  {
+    name: "ui_handle_dialog",
+    description: "Accept or dismiss the current alert, confirm or prompt dialog",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["accept", "dismiss"],
+          description: "How to close the dialog",
+        },
+        promptText: { type: "string", description: "Text to enter into a prompt dialog (optional)" },
+      },
+      required: ["action"],
+    },
+    action: "handleDialog",
+    format: (_data, args) => `Dialog ${args.action === "accept" ? "accepted" : "dismissed"}`,
+    failure: "Failed to handle dialog",
+  },
+  {
+    name: "ui_get_downloads",
+    description: "List recent browser downloads",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Maximum number of downloads to return (default: 20)" },
+      },
+    },
+    action: "getDownloads",
+    failure: "Failed to get downloads",
+  },
+  {
+    name: "ui_get_window_info",
+    description: "Get browser window information",
+    inputSchema: emptySchema(),
+    action: "getWindowInfo",
+    failure: "Failed to get window info",
+  },
+  {
+    name: "ui_get_accessibility_tree",
+    description: "Get accessibility tree of the page or an element",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Root element (whole page if not specified)" },
+        selectorType: selectorTypeProperty,
+      },
+    },
+    action: "getAccessibilityTree",
+    defaults: { selectorType: "css" },
+    failure: "Failed to get accessibility tree",
+  },
+];
+
+// ============================================================
+// DOM mutation observer
+// ============================================================
+const observerTools: ToolDefinition[] = [
+  {
+    name: "ui_observe_dom",
+    description: "Start observing DOM mutations on an element (returns an observer ID)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Element to observe" },
+        selectorType: selectorTypeProperty,
+        options: {
+          type: "object",
+          properties: {
+            childList: { type: "boolean" },
+            attributes: { type: "boolean" },
+            characterData: { type: "boolean" },
+            subtree: { type: "boolean" },
+          },
+          description: "MutationObserver options (default: childList and subtree)",
+        },
+      },
+      required: ["selector"],
+    },
+    action: "observeDOM",
+    defaults: { selectorType: "css" },
+    format: (data) => `Observing: ${JSON.stringify(data)}`,
+    failure: "Failed to observe DOM",
+  },
+  {
+    name: "ui_stop_observe_dom",
+    description: "Stop a DOM mutation observer",
+    inputSchema: {
+      type: "object",
+      properties: {
+        observerId: { type: "string", description: "Observer ID returned by ui_observe_dom" },
+      },
+      required: ["observerId"],
+    },
+    action: "stopObserveDOM",
+    format: (_data, { observerId }) => `Stopped observer: ${observerId}`,
+    failure: "Failed to stop observer",
+  },
+];
+
+export const browserTools: ToolDefinition[] = [
+  ...interactionTools,
+  ...tabTools,
+  ...navigationTools,
+  ...storageTools,
+  ...formTools,
+  ...queryTools,
+  ...frameTools,
+  ...captureTools,
+  ...textTools,
+  ...mediaTools,
+  ...positionTools,
+  ...debugTools,
+  ...observerTools,
+];
@@ -0,0 +1,310 @@
+import { COMMAND_TIMEOUT_MARGIN, type ToolDefinition } from "../registry";
+
+const windowTargetProperties = {
+  title: { type: "string", description: "Window title (partial match)" },
+  processName: { type: "string", description: "Process name" },
+};
+
+// ============================================================
+// Desktop-specific tools
+// ============================================================
+export const desktopTools: ToolDefinition[] = [
+  // Mouse
+  {
+    name: "desktop_mouse_click",
+    description: "Click at specific screen coordinates (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate" },
+        y: { type: "number", description: "Y coordinate" },
+        button: {
+          type: "string",
+          enum: ["left", "right", "middle"],
+          description: "Mouse button (default: left)",
+        },
+        clicks: { type: "number", description: "Number of clicks (1 = single, 2 = double)" },
+      },
+      required: ["x", "y"],
+    },
+    action: "mouseClick",
+    defaults: { button: "left", clicks: 1 },
+    format: (_data, { x, y }) => `Clicked at (${x}, ${y})`,
+    failure: "Failed to click",
+  },
+  {
+    name: "desktop_mouse_move",
+    description: "Move mouse to specific screen coordinates (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: { type: "number", description: "X coordinate" },
+        y: { type: "number", description: "Y coordinate" },
+        duration: { type: "number", description: "Animation duration in ms" },
+      },
+      required: ["x", "y"],
+    },
+    action: "mouseMove",
+    defaults: { duration: 0 },
+    format: (_data, { x, y }) => `Moved mouse to (${x}, ${y})`,
+    failure: "Failed to move",
+  },
+  {
+    name: "desktop_mouse_drag",
+    description: "Drag mouse from one position to another (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        startX: { type: "number", description: "Start X coordinate" },
+        startY: { type: "number", description: "Start Y coordinate" },
+        endX: { type: "number", description: "End X coordinate" },
+        endY: { type: "number", description: "End Y coordinate" },
+        duration: { type: "number", description: "Drag duration in ms" },
+      },
+      required: ["startX", "startY", "endX", "endY"],
+    },
+    action: "mouseDrag",
+    defaults: { duration: 500 },
+    format: (_data, { startX, startY, endX, endY }) =>
+      `Dragged from (${startX}, ${startY}) to (${endX}, ${endY})`,
+    failure: "Failed to drag",
+  },
+
+  // Windows
+  {
+    name: "desktop_window_list",
+    description: "List all open windows (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        includeMinimized: { type: "boolean", description: "Include minimized windows" },
+      },
+    },
+    action: "windowList",
+    defaults: { includeMinimized: false },
+    failure: "Failed to list windows",
+  },
+  {
+    name: "desktop_window_focus",
+    description: "Focus/activate a window by title or process name (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: { ...windowTargetProperties },
+    },
+    action: "windowFocus",
+    format: (_data, { title, processName }) => `Focused window: ${title || processName}`,
+    failure: "Failed to focus",
+  },
+  {
+    name: "desktop_window_resize",
+    description: "Resize a window by title or process name (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...windowTargetProperties,
+        width: { type: "number", description: "New width in pixels" },
+        height: { type: "number", description: "New height in pixels" },
+      },
+      required: ["width", "height"],
+    },
+    action: "windowResize",
+    format: (_data, { width, height }) => `Resized window to ${width}x${height}`,
+    failure: "Failed to resize",
+  },
+  {
+    name: "desktop_window_move",
+    description: "Move a window by title or process name (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...windowTargetProperties,
+        x: { type: "number", description: "New X position" },
+        y: { type: "number", description: "New Y position" },
+      },
+      required: ["x", "y"],
+    },
+    action: "windowMove",
+    format: (_data, { x, y }) => `Moved window to (${x}, ${y})`,
+    failure: "Failed to move",
+  },
+  {
+    name: "desktop_window_state",
+    description: "Change window state (minimize, maximize, restore, close)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...windowTargetProperties,
+        state: {
+          type: "string",
+          enum: ["minimize", "maximize", "restore", "close"],
+          description: "New window state",
+        },
+      },
+      required: ["state"],
+    },
+    action: "windowState",
+    format: (_data, { state }) => `Window state changed to: ${state}`,
+    failure: "Failed to change state",
+  },
+
+  // Clipboard
+  {
+    name: "desktop_clipboard_read",
+    description: "Read text from system clipboard (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          enum: ["text", "html", "image"],
+          description: "Clipboard format (default: text)",
+        },
+      },
+    },
+    action: "clipboardRead",
+    defaults: { format: "text" },
+    format: (data) => String(data),
+    failure: "Failed to read clipboard",
+  },
+  {
+    name: "desktop_clipboard_write",
+    description: "Write text to system clipboard (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "Text to write to clipboard" },
+      },
+      required: ["text"],
+    },
+    action: "clipboardWrite",
+    format: () => "Copied to clipboard",
+    failure: "Failed to write clipboard",
+  },
+
+  // System
+  {
+    name: "desktop_shell_exec",
+    description: "Execute a shell command (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "Command to execute" },
+        cwd: { type: "string", description: "Working directory" },
+        timeout: { type: "number", description: "Timeout in ms (default: 30000)" },
+      },
+      required: ["command"],
+    },
+    action: "shellExec",
+    defaults: { timeout: 30000 },
+    timeoutMs: ({ timeout }) => (timeout as number) + COMMAND_TIMEOUT_MARGIN,
+    format: (data) => {
+      const { stdout, stderr } = data as { stdout: string; stderr: string };
+      return stdout || stderr || "(no output)";
+    },
+    failure: "Command failed",
+    requiresApproval: true,
+  },
+  {
+    name: "desktop_app_launch",
+    description: "Launch an application (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Path to application or executable" },
+        args: {
+          type: "array",
+          items: { type: "string" },
+          description: "Command line arguments",
+        },
+      },
+      required: ["path"],
+    },
+    action: "appLaunch",
+    defaults: { args: [] },
+    format: (_data, { path }) => `Launched: ${path}`,
+    failure: "Failed to launch",
+  },
+  {
+    name: "desktop_app_close",
+    description: "Close an application by process name or PID (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        processName: { type: "string", description: "Process name to close" },
+        pid: { type: "number", description: "Process ID to close" },
+      },
+    },
+    action: "appClose",
+    format: (_data, { processName, pid }) => `Closed: ${processName || pid}`,
+    failure: "Failed to close",
+    requiresApproval: true,
+  },
+
+  // Files
+  {
+    name: "desktop_file_read",
+    description: "Read file contents (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path" },
+        encoding: { type: "string", description: "File encoding (default: utf8)" },
+      },
+      required: ["path"],
+    },
+    action: "fileRead",
+    defaults: { encoding: "utf8" },
+    format: (data) => String(data),
+    failure: "Failed to read file",
+  },
+  {
+    name: "desktop_file_write",
+    description: "Write content to a file (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path" },
+        content: { type: "string", description: "Content to write" },
+        encoding: { type: "string", description: "File encoding (default: utf8)" },
+      },
+      required: ["path", "content"],
+    },
+    action: "fileWrite",
+    defaults: { encoding: "utf8" },
+    format: (_data, { path }) => `Written to: ${path}`,
+    failure: "Failed to write file",
+    requiresApproval: true,
+  },
+  {
+    name: "desktop_file_exists",
+    description: "Check if a file exists (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path to check" },
+      },
+      required: ["path"],
+    },
+    action: "fileExists",
+    format: (data) => `File exists: ${data}`,
+    failure: "Failed to check file",
+  },
+
+  // Notifications
+  {
+    name: "desktop_notify",
+    description: "Show a desktop notification (desktop only)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Notification title" },
+        message: { type: "string", description: "Notification message" },
+        icon: { type: "string", description: "Icon path (optional)" },
+      },
+      required: ["title", "message"],
+    },
+    action: "notify",
+    format: () => "Notification sent",
+    failure: "Failed to notify",
+  },
+];
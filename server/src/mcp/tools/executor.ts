@@ -0,0 +1,141 @@
+import { EXECUTOR_EVENT_TYPES } from "@wire-agent/protocol";
+import { executorManager } from "../../executor/manager";
+import { SelectorError } from "../../executor/selector";
+import { errorResult, textResult, type ToolDefinition } from "../registry";
+
+// ============================================================
+// Executor management tools (handled by the server)
+// ============================================================
+export const executorTools: ToolDefinition[] = [
+  {
+    name: "executor_list",
+    description:
+      "List all connected executors (browsers, mobile devices, etc.) with their health, load and lease holder, " +
+      "and the status of each executor pool",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => {
+      const status = { executors: executorManager.list(), pools: executorManager.poolStatus() };
+      return textResult(JSON.stringify(status, null, 2));
+    },
+  },
+  {
+    name: "executor_use",
+    description: "Set the default executor for subsequent commands in this session",
+    inputSchema: {
+      type: "object",
+      properties: {
+        executorId: {
+          type: "string",
+          description: "The executor ID, or a selector matching exactly one executor, to use as default",
+        },
+      },
+      required: ["executorId"],
+    },
+    handler: (args, { session }) => {
+      const target = executorManager.resolve(args.executorId as string, session?.id);
+      if (!target.ok) {
+        return errorResult(target.code, target.error);
+      }
+      executorManager.setDefault(target.executorId, session?.id);
+      return textResult(`Default executor set to: ${target.executorId}`);
+    },
+  },
+  {
+    name: "executor_acquire",
+    description:
+      "Lease an executor for exclusive use by this session and make it the default. " +
+      "Other sessions' commands to it fail with EXECUTOR_LEASED until it is released or the lease expires. " +
+      "Each command renews the lease; call again to renew it explicitly",
+    inputSchema: {
+      type: "object",
+      properties: {
+        executorId: { type: "string", description: "The executor ID, or a selector matching exactly one executor" },
+        ttlMs: {
+          type: "integer",
+          minimum: 1000,
+          maximum: 60 * 60 * 1000,
+          description: "Release the lease after this many ms without commands, from 1000 to 3600000 (default: 300000)",
+        },
+      },
+      required: ["executorId"],
+    },
+    handler: (args, { session }) => {
+      if (!session) {
+        return errorResult("NOT_SUPPORTED", "Leases are only available to MCP sessions");
+      }
+      const target = executorManager.resolve(args.executorId as string, session?.id);
+      if (!target.ok) {
+        return errorResult(target.code, target.error);
+      }
+      const { executorId } = target;
+      const result = executorManager.acquire(executorId, session, args.ttlMs as number | undefined);
+      if (!result.ok) {
+        return errorResult(result.code, result.error);
+      }
+      return textResult(`Leased ${executorId} until ${new Date(result.lease!.expiresAt).toISOString()}`);
+    },
+  },
+  {
+    name: "executor_release",
+    description: "Release this session's lease on an executor",
+    inputSchema: {
+      type: "object",
+      properties: {
+        executorId: { type: "string", description: "The executor ID, or a selector matching exactly one executor" },
+      },
+      required: ["executorId"],
+    },
+    handler: (args, { session }) => {
+      if (!session) {
+        return errorResult("NOT_SUPPORTED", "Leases are only available to MCP sessions");
+      }
+      // Leases outlive disconnects, so fall back to the id as given
+      const target = executorManager.resolve(args.executorId as string, session?.id);
+      const executorId = target.ok ? target.executorId : (args.executorId as string);
+      const result = executorManager.release(executorId, session);
+      if (!result.ok) {
+        return errorResult(result.code, result.error);
+      }
+      return textResult(result.lease ? `Released ${executorId}` : `${executorId} was not leased`);
+    },
+  },
+  {
+    name: "executor_events",
+    description:
+      "Get events executors reported since a cursor (console errors, dialogs, navigations, DOM mutations, downloads). " +
+      "Pass the returned cursor as `since` on the next call to only get newer events",
+    inputSchema: {
+      type: "object",
+      properties: {
+        since: { type: "number", description: "Cursor from a previous call (default: 0, all buffered events)" },
+        types: {
+          type: "array",
+          items: { type: "string", enum: [...EXECUTOR_EVENT_TYPES] },
+          description: "Only return these event types",
+        },
+        executorId: {
+          type: "string",
+          description: "Only return events from this executor, or from executors matching a selector (default: all executors)",
+        },
+        limit: { type: "number", description: "Maximum number of events to return (default: 100)" },
+      },
+    },
+    handler: (args) => {
+      try {
+        const result = executorManager.events({
+          executorId: args.executorId as string | undefined,
+          since: args.since as number | undefined,
+          types: args.types as string[] | undefined,
+          limit: args.limit as number | undefined,
+        });
+        return textResult(JSON.stringify(result, null, 2));
+      } catch (err) {
+        if (!(err instanceof SelectorError)) throw err;
+        return errorResult("INVALID_PARAMS", err.message);
+      }
+    },
+  },
+];
@@ -0,0 +1,136 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { executorManager, type FanoutResult } from "../../executor/manager";
+import {
+  errorResult,
+  resolveParams,
+  timeoutMsProperty,
+  validateArgs,
+  type ActionToolDefinition,
+  type LocalToolDefinition,
+  type ToolContent,
+  type ToolRegistry,
+} from "../registry";
+
+// ============================================================
+// executor_fanout: one action on every matching executor
+// ============================================================
+
+interface ExecutorSummary {
+  executorId: string;
+  success: boolean;
+  durationMs: number;
+  code?: string;
+  error?: string;
+  // Formatted output, or the raw data when the action has no text format
+  output?: unknown;
+}
+
+// Text results go in the summary, anything else (e.g. screenshots) is
+// returned as content labelled with the executor id
+function summarize(
+  tool: ActionToolDefinition,
+  args: Record<string, unknown>,
+  { executorId, result, durationMs }: FanoutResult
+): { summary: ExecutorSummary; content: ToolContent[] } {
+  const summary: ExecutorSummary = { executorId, success: result.success, durationMs };
+  if (!result.success) {
+    return { summary: { ...summary, code: result.code, error: result.error }, content: [] };
+  }
+
+  const formatted = tool.format ? tool.format(result.data, args) : result.data;
+  if (!Array.isArray(formatted)) {
+    return { summary: { ...summary, output: formatted ?? null }, content: [] };
+  }
+  return { summary, content: [{ type: "text", text: `${executorId}:` }, ...formatted] };
+}
+
+export function createFanoutTool(registry: ToolRegistry): LocalToolDefinition {
+  return {
+    name: "executor_fanout",
+    description:
+      "Run one protocol action with the same params on every executor matching a selector, concurrently. " +
+      "Returns each executor's result with its latency, and which executors succeeded or failed. " +
+      "E.g. action \"screenshot\" on \"platform=browser\", or \"shellExec\" on \"pool=ci\"",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "Executors to run on: a selector such as \"platform=desktop\", a pool, or an executor ID",
+        },
+        action: { type: "string", description: "Protocol action, e.g. screenshot, navigate, shellExec" },
+        params: { type: "object", description: "Action params, the same as the tool for that action takes" },
+        timeoutMs: timeoutMsProperty,
+      },
+      required: ["selector", "action"],
+    },
+    handler: async (args, options): Promise<CallToolResult> => {
+      const action = args.action as string;
+      const selector = args.selector as string;
+      const tools = registry.actionTools(action);
+      if (tools.length === 0) {
+        return errorResult("NOT_SUPPORTED", `Unknown action: ${action}`);
+      }
+      const [tool] = tools;
+      const given = (args.params as Record<string, unknown> | undefined) ?? {};
+      const invalid = validateArgs(tool, given, "params");
+      if (invalid) {
+        return errorResult("INVALID_PARAMS", `Invalid params for ${action}: ${invalid}`);
+      }
+      // Same params the action's own tool would send, without its routing args
+      const { resolved, params } = resolveParams(tool, given);
+
+      const targets = executorManager.select(selector);
+      if (!targets.ok) {
+        return errorResult(targets.code, targets.error);
+      }
+      const { executorIds } = targets;
+
+      // Fanning out must not get around approval of any tool sending this action
+      const gated = tools.find((t) => t.requiresApproval);
+      if (gated) {
+        const decision = options.approve
+          ? await options.approve({ tool: gated.name, action, params, executorId: executorIds.join(", ") })
+          : { approved: false, reason: "No way to ask for approval" };
+        if (!decision.approved) {
+          return errorResult("PERMISSION_DENIED", `${action} on ${selector} was not approved: ${decision.reason ?? "denied"}`);
+        }
+      }
+
+      let done = 0;
+      const results = await executorManager.fanout(action, params, executorIds, {
+        timeoutMs: (args.timeoutMs as number | undefined) ?? tool.timeoutMs?.(resolved),
+        session: options.session,
+        signal: options.signal,
+        onResult: ({ executorId, result }) => {
+          options.onProgress?.({
+            type: "progress",
+            id: executorId,
+            progress: ++done,
+            total: executorIds.length,
+            message: `${executorId}: ${result.success ? "ok" : result.code}`,
+          });
+        },
+      });
+
+      const parts = results.map((result) => summarize(tool, resolved, result));
+      const summaries = parts.map((part) => part.summary);
+      const summary = {
+        action,
+        selector,
+        succeeded: summaries.filter((s) => s.success).map((s) => s.executorId),
+        failed: summaries.filter((s) => !s.success).map((s) => s.executorId),
+        results: summaries,
+      };
+
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(summary, null, 2) },
+          ...parts.flatMap((part) => part.content),
+        ],
+        structuredContent: summary,
+        isError: summary.succeeded.length === 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { ToolRegistry } from "../registry";
+import { mcpLogger as log } from "../../utils/logger";
+import { executorTools } from "./executor";
+import { browserTools } from "./browser";
+import { desktopTools } from "./desktop";
+import { createFanoutTool } from "./fanout";
+
+export { executorTools, browserTools, desktopTools };
+
+// Singleton registry backing ListTools and CallTool
+export const toolRegistry = new ToolRegistry([
+  ...executorTools,
+  ...browserTools,
+  ...desktopTools,
+]);
+
+// Needs the registry to look up what each action's tool does
+toolRegistry.register(createFanoutTool(toolRegistry));
+
+// WIRE_AGENT_APPROVAL_TOOLS replaces the built-in list of tools needing approval
+// (an empty value disables approval)
+const approvalTools = process.env.WIRE_AGENT_APPROVAL_TOOLS;
+if (approvalTools !== undefined) {
+  const names = approvalTools.split(",").map((name) => name.trim()).filter(Boolean);
+  const unknown = toolRegistry.setApprovalRequired(names);
+  if (unknown.length > 0) {
+    log.warn(`Ignoring unknown tools in WIRE_AGENT_APPROVAL_TOOLS: ${unknown.join(", ")}`);
+  }
+}
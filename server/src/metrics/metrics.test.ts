@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { MetricsRegistry } from "./metrics";
+
+describe("MetricsRegistry", () => {
+  it("should render counters and gauges in the text format", () => {
+    const registry = new MetricsRegistry();
+    const commands = registry.counter("commands_total", "Commands");
+    const executors = registry.gauge("executors", "Executors");
+
+    commands.inc({ action: "click", outcome: "ok" });
+    commands.inc({ outcome: "ok", action: "click" }, 2);
+    executors.set({ platform: "browser" }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP commands_total Commands",
+        "# TYPE commands_total counter",
+        'commands_total{action="click",outcome="ok"} 3',
+        "# HELP executors Executors",
+        "# TYPE executors gauge",
+        'executors{platform="browser"} 3',
+      ].join("\n") + "\n"
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram("duration_seconds", "Duration", [0.1, 1]);
+
+    duration.observe({ action: "click" }, 0.05);
+    duration.observe({ action: "click" }, 0.5);
+    duration.observe({ action: "click" }, 5);
+
+    expect(registry.render().split("\n").slice(2, -1)).toEqual([
+      'duration_seconds_bucket{action="click",le="0.1"} 1',
+      'duration_seconds_bucket{action="click",le="1"} 2',
+      'duration_seconds_bucket{action="click",le="+Inf"} 3',
+      'duration_seconds_sum{action="click"} 5.55',
+      'duration_seconds_count{action="click"} 3',
+    ]);
+  });
+
+  it("should run collectors before rendering", () => {
+    const registry = new MetricsRegistry();
+    const executors = registry.gauge("executors", "Executors");
+    let platforms = ["browser", "desktop"];
+    registry.onCollect(() => {
+      executors.reset();
+      platforms.forEach((platform) => executors.set({ platform }, 1));
+    });
+
+    expect(registry.render()).toContain('executors{platform="desktop"} 1');
+    platforms = ["browser"];
+    expect(registry.render()).not.toContain("desktop");
+  });
+
+  it("should remove the series matching some labels", () => {
+    const registry = new MetricsRegistry();
+    const timeouts = registry.counter("timeouts_total", "Timeouts");
+    const duration = registry.histogram("duration_seconds", "Duration", [1]);
+    for (const executor of ["browser:tab:1", "desktop"]) {
+      timeouts.inc({ action: "click", executor });
+      duration.observe({ action: "click", executor }, 0.5);
+    }
+
+    timeouts.remove({ executor: "browser:tab:1" });
+    duration.remove({ executor: "browser:tab:1" });
+
+    expect(registry.render()).not.toContain("browser:tab:1");
+    expect(timeouts.get({ action: "click", executor: "desktop" })).toBe(1);
+    expect(registry.render()).toContain('duration_seconds_count{action="click",executor="desktop"} 1');
+  });
+
+  it("should escape label values", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("events_total", "Events").inc({ title: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain('events_total{title="say \\"hi\\"\\\\\\n"} 1');
+  });
+});
@@ -0,0 +1,198 @@
+// ============================================================
+// Metrics in the Prometheus text exposition format
+// ============================================================
+
+type Labels = Record<string, string>;
+
+// Seconds; command round trips range from a click to a long shell command
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Label sets are keyed by their rendered form
+function keyOf(labels: Labels): string {
+  return formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))));
+}
+
+function hasLabels(labels: Labels, match: Labels): boolean {
+  return Object.entries(match).every(([key, value]) => labels[key] === value);
+}
+
+// Drop the series whose labels include all of `match`
+function removeSeries(series: Map<string, { labels: Labels }>, match: Labels): void {
+  for (const [key, { labels }] of series) {
+    if (hasLabels(labels, match)) series.delete(key);
+  }
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+abstract class ValueMetric extends Metric {
+  protected values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  get(labels: Labels = {}): number {
+    return this.values.get(keyOf(labels))?.value ?? 0;
+  }
+
+  // For series of something that is gone, e.g. an executor that unregistered
+  remove(match: Labels): void {
+    removeSeries(this.values, match);
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = keyOf(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels: current?.labels ?? labels, value: (current?.value ?? 0) + value });
+  }
+}
+
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(keyOf(labels), { labels, value });
+  }
+
+  // Drop every label set, for gauges rebuilt on each scrape
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = keyOf(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  remove(match: Labels): void {
+    removeSeries(this.series, match);
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.series.values()).flatMap(({ labels, counts, sum, count }) => {
+      let cumulative = 0;
+      const buckets = this.buckets.map((bound, i) => {
+        cumulative += counts[i];
+        return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+      });
+      return [
+        ...buckets,
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      ];
+    });
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.add(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.add(new Histogram(name, help, buckets));
+  }
+
+  // Run before every render, to update metrics read from current state
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collect of this.collectors) {
+      collect();
+    }
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Singleton instance
+export const metrics = new MetricsRegistry();
+
+export const executorsConnected = metrics.gauge(
+  "wire_agent_executors",
+  "Registered executors by platform"
+);
+export const commandsTotal = metrics.counter(
+  "wire_agent_commands_total",
+  "Commands by action and outcome (ok, or the error code)"
+);
+export const commandDuration = metrics.histogram(
+  "wire_agent_command_duration_seconds",
+  "Round trip of commands the executor answered, by action and executor"
+);
+export const commandTimeouts = metrics.counter(
+  "wire_agent_command_timeouts_total",
+  "Commands that timed out, by action and executor"
+);
+export const pendingRequests = metrics.gauge(
+  "wire_agent_pending_requests",
+  "Commands waiting for a result, by executor"
+);
+export const websocketBytes = metrics.counter(
+  "wire_agent_websocket_bytes_total",
+  "Bytes on executor sockets, including framing, by direction (in, out)"
+);
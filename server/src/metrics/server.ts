@@ -0,0 +1,60 @@
+import http from "http";
+import { executorManager } from "../executor/manager";
+import { metricsLogger as log } from "../utils/logger";
+import { sendJson } from "../utils/http";
+import { isRequestAuthorized, loadAuthConfig } from "../ws/auth";
+import { executorsConnected, metrics, pendingRequests } from "./metrics";
+
+// ============================================================
+// Metrics listener: GET /metrics for a Prometheus scraper
+// ============================================================
+
+let server: http.Server | null = null;
+
+// Executor gauges mirror the manager at scrape time
+metrics.onCollect(() => {
+  executorsConnected.reset();
+  pendingRequests.reset();
+  const byPlatform = new Map<string, number>();
+  for (const executor of executorManager.list()) {
+    byPlatform.set(executor.platform, (byPlatform.get(executor.platform) ?? 0) + 1);
+    pendingRequests.set({ executor: executor.executorId }, executor.pendingRequests);
+  }
+  for (const [platform, count] of byPlatform) {
+    executorsConnected.set({ platform }, count);
+  }
+});
+
+// Separate from the executor socket so it can stay on loopback while that one does not
+export function startMetricsServer(port: number, host = "127.0.0.1"): http.Server {
+  if (server) return server;
+
+  // Scrapers send WIRE_AGENT_TOKEN as a bearer token, like the admin routes
+  const authConfig = loadAuthConfig();
+  server = http.createServer((req, res) => {
+    if (!isRequestAuthorized(req, authConfig, host)) {
+      log.warn(`Rejected ${req.method} ${req.url} from ${req.socket.remoteAddress}`);
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== "/metrics" || req.method !== "GET") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+    res.end(metrics.render());
+  });
+
+  server.on("listening", () => log.info(`Metrics on http://${host}:${port}/metrics`));
+  server.on("error", (err) => log.error("Metrics server error", err));
+  server.listen(port, host);
+  return server;
+}
+
+export function stopMetricsServer(): void {
+  if (server) {
+    server.close();
+    server = null;
+  }
+}
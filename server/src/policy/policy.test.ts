@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { Policy, type PolicyConfig } from "./policy";
+
+const check = (config: PolicyConfig, action: string, params: Record<string, unknown> = {}, executorId = "desktop:linux:ci") =>
+  new Policy(config).check({ action, params, executorId });
+
+describe("Policy", () => {
+  it("should apply the default when no rule matches", () => {
+    expect(check({ rules: [] }, "click")).toEqual({ effect: "allow" });
+    expect(check({ default: "deny", rules: [] }, "click")).toEqual({ effect: "deny" });
+  });
+
+  it("should deny an action entirely", () => {
+    const config: PolicyConfig = { rules: [{ id: "no-shell", effect: "deny", actions: ["shellExec"], reason: "No shell in CI" }] };
+
+    expect(check(config, "shellExec", { command: "rm -rf /" })).toEqual({
+      effect: "deny",
+      rule: "no-shell",
+      reason: "No shell in CI",
+    });
+    expect(check(config, "click").effect).toBe("allow");
+  });
+
+  it("should let the first matching rule decide", () => {
+    const config: PolicyConfig = {
+      rules: [
+        { effect: "allow", actions: ["file*"], paths: ["/work"] },
+        { effect: "deny", actions: ["file*"] },
+      ],
+    };
+
+    expect(check(config, "fileWrite", { path: "/work/out.txt" })).toMatchObject({ effect: "allow", rule: "rules[0]" });
+    expect(check(config, "fileRead", { path: "/etc/passwd" })).toMatchObject({ effect: "deny", rule: "rules[1]" });
+  });
+
+  it("should not be fooled by traversal, sibling prefixes or relative paths", () => {
+    const config: PolicyConfig = { rules: [{ effect: "allow", paths: ["/work/"] }], default: "deny" };
+
+    expect(check(config, "fileRead", { path: "/work/../etc/passwd" }).effect).toBe("deny");
+    expect(check(config, "fileRead", { path: "/workspace/secret" }).effect).toBe("deny");
+    expect(check(config, "fileRead", { path: "notes.txt" }).effect).toBe("deny");
+    expect(check(config, "fileRead", { path: "/work" }).effect).toBe("allow");
+  });
+
+  it("should fail closed on relative paths and check cwd", () => {
+    const config: PolicyConfig = {
+      rules: [
+        { id: "no-etc", effect: "deny", paths: ["/etc"] },
+        { id: "work", effect: "allow", paths: ["/work"] },
+      ],
+      default: "deny",
+    };
+
+    expect(check(config, "fileRead", { path: "../../etc/passwd" }).rule).toBe("no-etc");
+    expect(check(config, "fileRead", { path: "etc/shadow" }).rule).toBe("no-etc");
+    expect(check(config, "shellExec", { command: "cat passwd", cwd: "/etc" }).rule).toBe("no-etc");
+    expect(check(config, "shellExec", { command: "make", cwd: "/work/app" })).toMatchObject({ effect: "allow", rule: "work" });
+    expect(check(config, "fileRead", { path: "/work/notes.txt" })).toMatchObject({ effect: "allow", rule: "work" });
+    expect(check(config, "fileRead", { path: "/work/notes.txt", cwd: "/tmp" }).effect).toBe("deny");
+  });
+
+  it("should match URL patterns", () => {
+    const config: PolicyConfig = {
+      default: "deny",
+      rules: [{ effect: "allow", actions: ["navigate"], urls: ["https://*.example.com/*", "http://localhost:*"] }],
+    };
+
+    expect(check(config, "navigate", { url: "https://app.example.com/login" }).effect).toBe("allow");
+    expect(check(config, "navigate", { url: "http://localhost:3000/" }).effect).toBe("allow");
+    expect(check(config, "navigate", { url: "https://example.com.evil.io/" }).effect).toBe("deny");
+  });
+
+  it("should match domains from params or the executor's page", () => {
+    const config: PolicyConfig = { rules: [{ id: "bank", effect: "deny", actions: ["cookie*"], domains: ["bank.com"] }] };
+    const policy = new Policy(config);
+
+    expect(policy.check({ action: "cookieGetAll", params: { domain: ".bank.com" }, executorId: "browser" }).effect).toBe("deny");
+    expect(policy.check({ action: "cookieGet", params: { url: "https://www.bank.com/" }, executorId: "browser" }).effect).toBe("deny");
+    expect(policy.check({
+      action: "cookieGetAll",
+      params: {},
+      executorId: "browser",
+      meta: { url: "https://login.bank.com/" },
+    }).effect).toBe("deny");
+    expect(policy.check({ action: "cookieGetAll", params: { domain: "notbank.com" }, executorId: "browser" }).effect).toBe("allow");
+  });
+
+  it("should restrict which executors an action may target", () => {
+    const config: PolicyConfig = {
+      rules: [
+        { effect: "allow", actions: ["shellExec"], executors: ["desktop:linux:ci-*"] },
+        { effect: "deny", actions: ["shellExec"] },
+      ],
+    };
+
+    expect(check(config, "shellExec", {}, "desktop:linux:ci-runner-1").effect).toBe("allow");
+    expect(check(config, "shellExec", {}, "desktop:macos:laptop").effect).toBe("deny");
+  });
+
+  it("should reject malformed policies", () => {
+    expect(() => new Policy({} as PolicyConfig)).toThrow("rules array");
+    expect(() => new Policy({ rules: [{ effect: "block" as "deny" }] })).toThrow("Invalid effect");
+    expect(() => new Policy({ rules: [{ effect: "deny", actions: "shellExec" as unknown as string[] }] })).toThrow("actions");
+    expect(() => new Policy({ rules: [{ effect: "allow", paths: ["work"] }] })).toThrow("absolute");
+  });
+});
@@ -0,0 +1,179 @@
+import { readFileSync } from "fs";
+import path from "path";
+import type { ExecutorMeta } from "@wire-agent/protocol";
+
+// ============================================================
+// Policy file format
+// ============================================================
+
+export type PolicyEffect = "allow" | "deny";
+
+// A rule matches when every condition it sets matches; the first matching
+// rule decides. Conditions that inspect params (paths, urls, domains) never
+// match a command that lacks the param. Relative paths fail closed: they
+// match every deny rule with paths and no allow rule.
+export interface PolicyRule {
+  id?: string;
+  effect: PolicyEffect;
+  // Action names, `*` wildcards allowed (default: all actions)
+  actions?: string[];
+  // Executor ids, `*` wildcards allowed (default: all executors)
+  executors?: string[];
+  // Absolute directories that contain the `path` and `cwd` params
+  paths?: string[];
+  // URL patterns matching the `url` param, `*` wildcards allowed
+  urls?: string[];
+  // Domains (and their subdomains) of the `url`/`domain` param, or of the tab
+  domains?: string[];
+  // Explanation returned to the agent when the rule denies
+  reason?: string;
+}
+
+export interface PolicyConfig {
+  // Effect when no rule matches (default: allow)
+  default?: PolicyEffect;
+  rules: PolicyRule[];
+}
+
+export interface PolicyRequest {
+  action: string;
+  params: Record<string, unknown>;
+  executorId: string;
+  meta?: ExecutorMeta;
+}
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  // id (or `rules[i]`) of the matching rule; unset when the default applied
+  rule?: string;
+  reason?: string;
+}
+
+const EFFECTS: PolicyEffect[] = ["allow", "deny"];
+const LIST_FIELDS = ["actions", "executors", "paths", "urls", "domains"] as const;
+
+// ============================================================
+// Matching helpers
+// ============================================================
+
+export function wildcard(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*+/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+function matchesAny(value: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => wildcard(pattern).test(value));
+}
+
+const PATH_PARAMS = ["path", "cwd"];
+
+// Relative paths are resolved against the executor's working directory,
+// which the server does not know, so whether they are inside is unknown
+function isInside(target: string, dirs: string[]): boolean | undefined {
+  if (!path.isAbsolute(target)) return undefined;
+  const normalized = path.normalize(target);
+  return dirs.some((dir) => {
+    const root = path.normalize(dir).replace(/[\\/]+$/, "");
+    return normalized === root || normalized.startsWith(root + path.sep);
+  });
+}
+
+// An allow rule needs every path param inside its directories; a deny rule
+// needs any one that is inside or might be
+function pathsMatch(rule: PolicyRule, dirs: string[], params: Record<string, unknown>): boolean {
+  const targets = PATH_PARAMS.map((key) => params[key]).filter((value): value is string => typeof value === "string");
+  if (targets.length === 0) return false;
+  const inside = targets.map((target) => isInside(target, dirs));
+  return rule.effect === "allow"
+    ? inside.every((result) => result === true)
+    : inside.some((result) => result !== false);
+}
+
+function hostOf(url: unknown): string | undefined {
+  if (typeof url !== "string") return undefined;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+// Commands without a url/domain act on the executor's current page
+function domainOf({ params, meta }: PolicyRequest): string | undefined {
+  if (typeof params.domain === "string") return params.domain.replace(/^\./, "");
+  return hostOf(params.url) ?? hostOf(meta?.url);
+}
+
+function isDomainOf(host: string, domains: string[]): boolean {
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+function ruleMatches(rule: PolicyRule, request: PolicyRequest): boolean {
+  const { action, params, executorId } = request;
+
+  if (rule.actions && !matchesAny(action, rule.actions)) return false;
+  if (rule.executors && !matchesAny(executorId, rule.executors)) return false;
+
+  if (rule.paths && !pathsMatch(rule, rule.paths, params)) return false;
+  if (rule.urls) {
+    if (typeof params.url !== "string" || !matchesAny(params.url, rule.urls)) return false;
+  }
+  if (rule.domains) {
+    const host = domainOf(request);
+    if (!host || !isDomainOf(host, rule.domains)) return false;
+  }
+  return true;
+}
+
+// ============================================================
+// Policy
+// ============================================================
+
+export class Policy {
+  private readonly defaultEffect: PolicyEffect;
+  private readonly rules: PolicyRule[];
+
+  constructor(config: PolicyConfig) {
+    Policy.validate(config);
+    this.defaultEffect = config.default ?? "allow";
+    this.rules = config.rules;
+  }
+
+  static load(file: string): Policy {
+    const config = JSON.parse(readFileSync(file, "utf8")) as PolicyConfig;
+    return new Policy(config);
+  }
+
+  private static validate(config: PolicyConfig): void {
+    if (config.default !== undefined && !EFFECTS.includes(config.default)) {
+      throw new Error(`Invalid policy default: ${config.default}`);
+    }
+    if (!Array.isArray(config.rules)) {
+      throw new Error("Policy must have a rules array");
+    }
+    config.rules.forEach((rule, i) => {
+      const name = rule.id ?? `rules[${i}]`;
+      if (!EFFECTS.includes(rule.effect)) {
+        throw new Error(`Invalid effect in policy rule ${name}: ${rule.effect}`);
+      }
+      for (const field of LIST_FIELDS) {
+        const value = rule[field];
+        if (value !== undefined && !(Array.isArray(value) && value.every((v) => typeof v === "string"))) {
+          throw new Error(`Policy rule ${name}: ${field} must be an array of strings`);
+        }
+      }
+      if (rule.paths?.some((dir) => !path.isAbsolute(dir))) {
+        throw new Error(`Policy rule ${name}: paths must be absolute`);
+      }
+    });
+  }
+
+  check(request: PolicyRequest): PolicyDecision {
+    for (const [i, rule] of this.rules.entries()) {
+      if (ruleMatches(rule, request)) {
+        return { effect: rule.effect, rule: rule.id ?? `rules[${i}]`, reason: rule.reason };
+      }
+    }
+    return { effect: this.defaultEffect };
+  }
+}
@@ -0,0 +1,26 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+const MAX_BODY_SIZE = 1024 * 1024; // 1 MB
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Parse a JSON request body; an empty body is {}
+export async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) throw new Error("Request body too large");
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString("utf8").trim();
+  if (!text) return {};
+  const body = JSON.parse(text);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new Error("Request body must be a JSON object");
+  }
+  return body;
+}
@@ -1,42 +1,43 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { LogRecord } from "./logger";
 
 describe("Logger", () => {
-  let originalEnv: string | undefined;
+  let originalEnv: NodeJS.ProcessEnv;
+  let stderr: ReturnType<typeof vi.spyOn>;
+  let stdout: ReturnType<typeof vi.spyOn>;
 
   beforeEach(() => {
-    originalEnv = process.env.LOG_LEVEL;
+    originalEnv = { ...process.env };
+    delete process.env.LOG_FORMAT;
+    delete process.env.LOG_FILE;
+    stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    stdout = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
     vi.spyOn(console, "log").mockImplementation(() => {});
-    vi.spyOn(console, "error").mockImplementation(() => {});
   });
 
   afterEach(() => {
-    process.env.LOG_LEVEL = originalEnv;
+    process.env = originalEnv;
     vi.restoreAllMocks();
     vi.resetModules();
   });
 
-  it("should log info messages", async () => {
+  const written = () => stderr.mock.calls.map((call: unknown[]) => String(call[0]));
+
+  it("should log info messages to stderr, never stdout", async () => {
     process.env.LOG_LEVEL = "info";
     const { logger } = await import("./logger");
 
     logger.info("Test", "Test message");
-
-    expect(console.log).toHaveBeenCalled();
-    const call = (console.log as any).mock.calls[0][0];
-    expect(call).toContain("INFO");
-    expect(call).toContain("Test message");
-  });
-
-  it("should log error messages to stderr", async () => {
-    process.env.LOG_LEVEL = "error";
-    const { logger } = await import("./logger");
-
     logger.error("Test", "Error message");
 
-    expect(console.error).toHaveBeenCalled();
-    const call = (console.error as any).mock.calls[0][0];
-    expect(call).toContain("ERROR");
-    expect(call).toContain("Error message");
+    expect(written()[0]).toContain("INFO");
+    expect(written()[0]).toContain("Test message");
+    expect(written()[1]).toContain("ERROR");
+    expect(stdout).not.toHaveBeenCalled();
+    expect(console.log).not.toHaveBeenCalled();
   });
 
   it("should filter messages below minimum level", async () => {
@@ -46,7 +47,19 @@ describe("Logger", () => {
     logger.debug("Test", "Debug message");
     logger.info("Test", "Info message");
 
-    expect(console.log).not.toHaveBeenCalled();
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  it("should apply per-module level overrides", async () => {
+    process.env.LOG_LEVEL = "MCP:debug,WebSocket:warn";
+    const { logger } = await import("./logger");
+
+    logger.debug("MCP", "mcp debug");
+    logger.info("WebSocket", "ws info");
+    logger.info("Executor", "executor info");
+    logger.debug("Executor", "executor debug");
+
+    expect(written().map((line) => line.split("] ").pop()?.trim())).toEqual(["mcp debug", "executor info"]);
   });
 
   it("should create child loggers with module prefix", async () => {
@@ -56,10 +69,8 @@ describe("Logger", () => {
     const childLogger = logger.child("MyModule");
     childLogger.info("Child message");
 
-    expect(console.log).toHaveBeenCalled();
-    const call = (console.log as any).mock.calls[0][0];
-    expect(call).toContain("MyModule");
-    expect(call).toContain("Child message");
+    expect(written()[0]).toContain("WireAgent:MyModule");
+    expect(written()[0]).toContain("Child message");
   });
 
   it("should log data when provided", async () => {
@@ -68,9 +79,136 @@ describe("Logger", () => {
 
     logger.info("Test", "Message with data", { key: "value" });
 
-    expect(console.log).toHaveBeenCalled();
-    const calls = (console.log as any).mock.calls[0];
-    expect(calls[1]).toContain("key");
-    expect(calls[1]).toContain("value");
+    expect(written()[0]).toContain('"key": "value"');
+  });
+
+  it("should write JSON lines with LOG_FORMAT=json", async () => {
+    process.env.LOG_LEVEL = "info";
+    process.env.LOG_FORMAT = "json";
+    const { logger } = await import("./logger");
+
+    logger.warn("Test", "Careful", { n: 1 });
+
+    expect(JSON.parse(written()[0])).toMatchObject({
+      level: "warn",
+      logger: "WireAgent:Test",
+      message: "Careful",
+      data: { n: 1 },
+    });
+  });
+
+  describe("RotatingFileSink", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "wire-agent-log-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should rotate files past the size limit", async () => {
+      const { RotatingFileSink } = await import("./logger");
+      const file = path.join(dir, "server.log");
+      const sink = new RotatingFileSink(file, { maxBytes: 200, maxFiles: 2, json: true });
+      const record = (message: string): LogRecord => ({
+        time: "2026-01-01T00:00:00.000Z",
+        level: "info",
+        logger: "WireAgent:Test",
+        message: message.padEnd(100, "."),
+      });
+
+      for (const message of ["one", "two", "three", "four"]) sink.write(record(message));
+      sink.close();
+
+      const messages = (f: string) =>
+        fs.readFileSync(f, "utf8").trim().split("\n").map((line) => JSON.parse(line).message.replace(/\.+$/, ""));
+      expect(messages(file)).toEqual(["four"]);
+      expect(messages(`${file}.1`)).toEqual(["three"]);
+      expect(messages(`${file}.2`)).toEqual(["two"]);
+      expect(fs.existsSync(`${file}.3`)).toBe(false);
+    });
+  });
+
+  describe("McpSink", () => {
+    const createServer = () => ({
+      transport: {},
+      getClientCapabilities: () => ({}),
+      sendLoggingMessage: vi.fn().mockResolvedValue(undefined),
+    });
+
+    it("should forward logs as MCP logging messages", async () => {
+      process.env.LOG_LEVEL = "info";
+      const { logger, McpSink, runInSession } = await import("./logger");
+      const server = createServer();
+      const sink = new McpSink(server, "session-1");
+      logger.addSink(sink);
+      sink.setLevel("info");
+
+      runInSession("session-1", () => logger.warn("MCP", "Heads up", { id: 1 }));
+
+      expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+        level: "warning",
+        logger: "WireAgent:MCP",
+        data: { message: "Heads up", data: { id: 1 } },
+      });
+    });
+
+    it("should honor the level the client set", async () => {
+      process.env.LOG_LEVEL = "warn";
+      const { logger, McpSink, runInSession } = await import("./logger");
+      const server = createServer();
+      const sink = new McpSink(server, "session-1");
+      logger.addSink(sink);
+
+      runInSession("session-1", () => {
+        sink.setLevel("debug");
+        logger.debug("MCP", "verbose");
+        sink.setLevel("error");
+        logger.warn("MCP", "ignored");
+      });
+
+      expect(server.sendLoggingMessage).toHaveBeenCalledTimes(1);
+      expect(server.sendLoggingMessage.mock.calls[0][0]).toMatchObject({ level: "debug", data: "verbose" });
+      // stderr still follows LOG_LEVEL
+      expect(written()).toHaveLength(1);
+      expect(written()[0]).toContain("ignored");
+    });
+
+    it("should only forward its own session's logs, once the client sets a level", async () => {
+      const { logger, McpSink, runInSession } = await import("./logger");
+      const [first, second] = [createServer(), createServer()];
+      const firstSink = new McpSink(first, "session-1");
+      const secondSink = new McpSink(second, "session-2");
+      logger.addSink(firstSink);
+      logger.addSink(secondSink);
+
+      runInSession("session-1", () => logger.info("MCP", "Tool call: desktop_type_text", { text: "hunter2" }));
+      expect(first.sendLoggingMessage).not.toHaveBeenCalled();
+
+      firstSink.setLevel("info");
+      secondSink.setLevel("info");
+      await runInSession("session-1", async () => {
+        await Promise.resolve();
+        logger.info("MCP", "Tool call: desktop_type_text", { text: "hunter2" });
+      });
+      logger.info("Executor", "Registered: desktop");
+
+      expect(first.sendLoggingMessage).toHaveBeenCalledTimes(1);
+      expect(second.sendLoggingMessage).not.toHaveBeenCalled();
+    });
+
+    it("should stay quiet until a client is connected", async () => {
+      const { logger, McpSink, runInSession } = await import("./logger");
+      const server = { ...createServer(), transport: undefined };
+      const sink = new McpSink(server, "session-1");
+      logger.addSink(sink);
+      sink.setLevel("debug");
+
+      runInSession("session-1", () => logger.error("MCP", "early"));
+
+      expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+    });
   });
 });
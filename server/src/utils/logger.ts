@@ -1,5 +1,10 @@
 // Wire Agent - Logger Utility
-// Provides structured logging with levels and timestamps
+// Provides structured logging with levels, timestamps and pluggable sinks.
+// stdout belongs to the MCP stdio transport, so nothing here writes to it.
+
+import fs from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
@@ -19,36 +24,276 @@ const LOG_COLORS: Record<LogLevel, string> = {
 
 const RESET_COLOR = "\x1b[0m";
 
+function isLogLevel(value: string): value is LogLevel {
+  return value in LOG_LEVELS;
+}
+
+// ============================================================
+// Records and formatting
+// ============================================================
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  // e.g. "WireAgent:MCP"
+  logger: string;
+  message: string;
+  data?: unknown;
+  // MCP session whose request logged this, if any
+  sessionId?: string;
+}
+
+// The MCP session a request belongs to, carried through everything it awaits
+const sessionContext = new AsyncLocalStorage<string>();
+
+// Tag every record logged while fn runs with the session
+export function runInSession<T>(sessionId: string, fn: () => T): T {
+  return sessionContext.run(sessionId, fn);
+}
+
+function serializeData(data: unknown): unknown {
+  if (data instanceof Error) {
+    return { name: data.name, message: data.message, stack: data.stack };
+  }
+  return data;
+}
+
+export function formatText(record: LogRecord, color = false): string {
+  const levelStr = record.level.toUpperCase().padEnd(5);
+  const header = `[${record.time}] [${levelStr}] [${record.logger}]`;
+  const line = color
+    ? `${LOG_COLORS[record.level]}${header}${RESET_COLOR} ${record.message}`
+    : `${header} ${record.message}`;
+
+  if (record.data === undefined) return line;
+  const data = serializeData(record.data);
+  return `${line} ${typeof data === "object" ? JSON.stringify(data, null, 2) : data}`;
+}
+
+export function formatJson(record: LogRecord): string {
+  return JSON.stringify({ ...record, data: serializeData(record.data) });
+}
+
+// ============================================================
+// Sinks
+// ============================================================
+
+export interface LogSink {
+  // Threshold that replaces the logger's own levels for this sink, e.g. the
+  // level an MCP client asked for. Undefined follows LOG_LEVEL.
+  level?(): LogLevel | undefined;
+  write(record: LogRecord): void;
+  close?(): void;
+}
+
+// Text or JSON lines to a stream, stderr by default
+export class StreamSink implements LogSink {
+  constructor(
+    private readonly stream: NodeJS.WritableStream & { isTTY?: boolean } = process.stderr,
+    private readonly options: { json?: boolean } = {}
+  ) {}
+
+  write(record: LogRecord): void {
+    const line = this.options.json ? formatJson(record) : formatText(record, this.stream.isTTY === true);
+    this.stream.write(line + "\n");
+  }
+}
+
+// Appends to a file, rotating to file.1 … file.N once it grows past maxBytes
+export class RotatingFileSink implements LogSink {
+  private fd: number | null = null;
+  private size = 0;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly json: boolean;
+
+  constructor(
+    private readonly file: string,
+    options: { maxBytes?: number; maxFiles?: number; json?: boolean } = {}
+  ) {
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.json = options.json ?? false;
+  }
+
+  private open(): number {
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.file, "a");
+      this.size = fs.fstatSync(this.fd).size;
+    }
+    return this.fd;
+  }
+
+  private rotate(): void {
+    this.close();
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.file}.${i}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${this.file}.${i + 1}`);
+    }
+    fs.renameSync(this.file, `${this.file}.1`);
+  }
+
+  write(record: LogRecord): void {
+    const line = (this.json ? formatJson(record) : formatText(record)) + "\n";
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    fs.writeSync(this.open(), line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+// The parts of the MCP Server the sink needs
+interface LoggingServer {
+  transport?: unknown;
+  getClientCapabilities(): unknown;
+  sendLoggingMessage(params: { level: LoggingLevel; logger?: string; data: unknown }): Promise<void>;
+}
+
+const TO_MCP_LEVEL: Record<LogLevel, LoggingLevel> = {
+  debug: "debug",
+  info: "info",
+  warn: "warning",
+  error: "error",
+};
+
+// Forwards the logs of one MCP session to its client as notifications/message.
+// Records of other sessions and of the server at large stay out: they carry
+// other clients' tool arguments. Silent until the client calls logging/setLevel.
+export class McpSink implements LogSink {
+  private clientLevel: LogLevel | undefined;
+
+  constructor(private readonly server: LoggingServer, private readonly sessionId: string) {}
+
+  // From logging/setLevel
+  setLevel(level: LoggingLevel): void {
+    if (level === "debug") this.clientLevel = "debug";
+    else if (level === "info" || level === "notice") this.clientLevel = "info";
+    else if (level === "warning") this.clientLevel = "warn";
+    else this.clientLevel = "error";
+  }
+
+  level(): LogLevel | undefined {
+    return this.clientLevel;
+  }
+
+  write(record: LogRecord): void {
+    if (!this.clientLevel || record.sessionId !== this.sessionId) return;
+    // Only once a client is connected and initialized
+    if (!this.server.transport || !this.server.getClientCapabilities()) return;
+    const data = record.data === undefined
+      ? record.message
+      : { message: record.message, data: serializeData(record.data) };
+
+    this.server
+      .sendLoggingMessage({ level: TO_MCP_LEVEL[record.level], logger: record.logger, data })
+      .catch((err) => {
+        // Not through the logger, which would feed this sink again
+        process.stderr.write(`Failed to send log notification: ${err}\n`);
+      });
+  }
+}
+
+// ============================================================
+// Logger
+// ============================================================
+
+// LOG_LEVEL is a default level and/or per-module overrides:
+// "debug", "MCP:debug,WebSocket:warn", "warn,Executor:debug"
+export function parseLogLevels(spec: string | undefined, fallback: LogLevel): {
+  defaultLevel: LogLevel;
+  moduleLevels: Map<string, LogLevel>;
+} {
+  let defaultLevel = fallback;
+  const moduleLevels = new Map<string, LogLevel>();
+
+  for (const part of (spec ?? "").split(",")) {
+    const entry = part.trim();
+    const separator = entry.lastIndexOf(":");
+    if (separator === -1) {
+      if (isLogLevel(entry)) defaultLevel = entry;
+      continue;
+    }
+    const module = entry.slice(0, separator);
+    const level = entry.slice(separator + 1);
+    if (module && isLogLevel(level)) moduleLevels.set(module, level);
+  }
+  return { defaultLevel, moduleLevels };
+}
+
+// Sinks from the environment: stderr (text, or JSON with LOG_FORMAT=json)
+// plus a rotating file when LOG_FILE is set
+function createDefaultSinks(env: NodeJS.ProcessEnv): LogSink[] {
+  const json = env.LOG_FORMAT === "json";
+  const sinks: LogSink[] = [new StreamSink(process.stderr, { json })];
+  if (env.LOG_FILE) {
+    sinks.push(new RotatingFileSink(env.LOG_FILE, {
+      json,
+      maxBytes: env.LOG_FILE_MAX_SIZE ? parseInt(env.LOG_FILE_MAX_SIZE, 10) : undefined,
+      maxFiles: env.LOG_FILE_MAX_FILES ? parseInt(env.LOG_FILE_MAX_FILES, 10) : undefined,
+    }));
+  }
+  return sinks;
+}
+
 class Logger {
-  private minLevel: LogLevel;
+  private defaultLevel: LogLevel;
+  private moduleLevels: Map<string, LogLevel>;
   private prefix: string;
+  private sinks: LogSink[];
 
   constructor(prefix = "WireAgent", minLevel: LogLevel = "info") {
     this.prefix = prefix;
-    this.minLevel = (process.env.LOG_LEVEL as LogLevel) || minLevel;
+    ({ defaultLevel: this.defaultLevel, moduleLevels: this.moduleLevels } =
+      parseLogLevels(process.env.LOG_LEVEL, minLevel));
+    this.sinks = createDefaultSinks(process.env);
+  }
+
+  addSink(sink: LogSink): void {
+    this.sinks.push(sink);
+  }
+
+  removeSink(sink: LogSink): void {
+    this.sinks = this.sinks.filter((s) => s !== sink);
+    sink.close?.();
   }
 
-  private shouldLog(level: LogLevel): boolean {
-    return LOG_LEVELS[level] >= LOG_LEVELS[this.minLevel];
+  // Replace all sinks (closing the old ones)
+  setSinks(sinks: LogSink[]): void {
+    for (const sink of this.sinks) sink.close?.();
+    this.sinks = sinks;
   }
 
-  private formatMessage(level: LogLevel, module: string, message: string): string {
-    const timestamp = new Date().toISOString();
-    const color = LOG_COLORS[level];
-    const levelStr = level.toUpperCase().padEnd(5);
-    return `${color}[${timestamp}] [${levelStr}] [${this.prefix}:${module}]${RESET_COLOR} ${message}`;
+  levelFor(module: string): LogLevel {
+    return this.moduleLevels.get(module) ?? this.defaultLevel;
   }
 
   private log(level: LogLevel, module: string, message: string, data?: unknown): void {
-    if (!this.shouldLog(level)) return;
+    const moduleLevel = this.levelFor(module);
+    let record: LogRecord | undefined;
 
-    const formattedMessage = this.formatMessage(level, module, message);
-    const output = level === "error" ? console.error : console.log;
+    for (const sink of this.sinks) {
+      const threshold = sink.level?.() ?? moduleLevel;
+      if (LOG_LEVELS[level] < LOG_LEVELS[threshold]) continue;
 
-    if (data !== undefined) {
-      output(formattedMessage, typeof data === "object" ? JSON.stringify(data, null, 2) : data);
-    } else {
-      output(formattedMessage);
+      const sessionId = sessionContext.getStore();
+      record ??= {
+        time: new Date().toISOString(),
+        level,
+        logger: `${this.prefix}:${module}`,
+        message,
+        data,
+        ...(sessionId ? { sessionId } : {}),
+      };
+      sink.write(record);
     }
   }
 
@@ -107,3 +352,9 @@ export const logger = new Logger();
 export const mcpLogger = logger.child("MCP");
 export const wsLogger = logger.child("WebSocket");
 export const executorLogger = logger.child("Executor");
+export const policyLogger = logger.child("Policy");
+export const approvalLogger = logger.child("Approval");
+export const auditLogger = logger.child("Audit");
+export const daemonLogger = logger.child("Daemon");
+export const metricsLogger = logger.child("Metrics");
+export const apiLogger = logger.child("API");
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import { encodeChunkFrame } from "@wire-agent/protocol";
+import { AttachmentAssembler } from "./attachments";
+
+function frames(attachmentId: string, bytes: Buffer, chunkSize: number): Buffer[] {
+  const result: Buffer[] = [];
+  for (let index = 0; index * chunkSize < bytes.length; index++) {
+    const chunk = bytes.subarray(index * chunkSize, (index + 1) * chunkSize);
+    const sha256 = createHash("sha256").update(chunk).digest("hex");
+    result.push(Buffer.from(encodeChunkFrame({ attachmentId, index, sha256 }, chunk)));
+  }
+  return result;
+}
+
+const png = Buffer.from("not really a png, but binary enough \x00\x01\x02");
+
+describe("AttachmentAssembler", () => {
+  it("should put reassembled attachments into the result as base64", () => {
+    const assembler = new AttachmentAssembler();
+    // Chunks may arrive in any order
+    frames("a1", png, 8).reverse().forEach((frame) => assembler.addFrame(frame));
+
+    const result = assembler.resolve({
+      type: "result",
+      id: "req_1",
+      success: true,
+      data: { screens: [{ image: { $attachment: "a1" } }] },
+      attachments: [{ id: "a1", size: png.length, chunks: Math.ceil(png.length / 8) }],
+    });
+
+    expect(result).toEqual({
+      type: "result",
+      id: "req_1",
+      success: true,
+      data: { screens: [{ image: png.toString("base64") }] },
+    });
+  });
+
+  it("should leave results without attachments alone", () => {
+    const result = { type: "result" as const, id: "req_1", success: true, data: { $attachment: "a1" } };
+
+    expect(new AttachmentAssembler().resolve(result)).toBe(result);
+  });
+
+  it("should reject chunks whose checksum does not match", () => {
+    const assembler = new AttachmentAssembler();
+    const [frame] = frames("a1", png, png.length);
+    frame[frame.length - 1] ^= 0xff;
+
+    expect(() => assembler.addFrame(frame)).toThrow("Checksum mismatch in chunk 0 of attachment a1");
+  });
+
+  it("should reject malformed frames", () => {
+    const assembler = new AttachmentAssembler();
+
+    expect(() => assembler.addFrame(Buffer.from([0, 0]))).toThrow("too short");
+    expect(() => assembler.addFrame(Buffer.from([0, 0, 0, 9, 1]))).toThrow("exceeds the frame");
+    expect(() => assembler.addFrame(Buffer.from(encodeChunkFrame({ attachmentId: "a1", index: -0.5, sha256: "" } as any, png))))
+      .toThrow("header.index must be an integer");
+  });
+
+  it("should fail results whose attachments are incomplete", () => {
+    const assembler = new AttachmentAssembler();
+    const [first] = frames("a1", png, 8);
+    assembler.addFrame(first);
+
+    const result = assembler.resolve({
+      type: "result",
+      id: "req_1",
+      success: true,
+      data: { $attachment: "a1" },
+      attachments: [{ id: "a1", size: png.length, chunks: Math.ceil(png.length / 8) }, { id: "a2", size: 1, chunks: 1 }],
+    });
+
+    expect(result).toEqual({
+      type: "result",
+      id: "req_1",
+      success: false,
+      code: "EXECUTION_FAILED",
+      error: `Attachment a1 is missing chunk 1 of ${Math.ceil(png.length / 8)}`,
+    });
+  });
+
+  it("should bound the bytes held for pending attachments", () => {
+    const assembler = new AttachmentAssembler(png.length);
+    frames("a1", png, png.length).forEach((frame) => assembler.addFrame(frame));
+
+    expect(() => frames("a2", png, 8).forEach((frame) => assembler.addFrame(frame))).toThrow("exceeds");
+    // Resolving a1 frees its bytes
+    assembler.resolve({ type: "result", id: "r", success: true, attachments: [{ id: "a1", size: png.length, chunks: 1 }] });
+    expect(() => frames("a2", png, 8).forEach((frame) => assembler.addFrame(frame))).not.toThrow();
+  });
+});
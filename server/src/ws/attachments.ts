@@ -0,0 +1,124 @@
+import { createHash } from "crypto";
+import {
+  AttachmentRef,
+  ExecuteResult,
+  decodeChunkFrame,
+  isAttachmentPlaceholder,
+} from "@wire-agent/protocol";
+
+// ============================================================
+// Attachments: binary chunk frames put back together and placed into the
+// result that references them. One assembler per executor socket.
+// ============================================================
+
+// Bytes held for attachments whose result has not arrived yet
+const MAX_BUFFERED_BYTES = 256 * 1024 * 1024;
+
+interface PartialAttachment {
+  chunks: Map<number, Buffer>;
+  size: number;
+}
+
+export class AttachmentAssembler {
+  private partial: Map<string, PartialAttachment> = new Map();
+  private buffered = 0;
+
+  constructor(private readonly maxBufferedBytes = MAX_BUFFERED_BYTES) {}
+
+  // Store one chunk frame. Throws, dropping the attachment, when the frame
+  // is malformed or its checksum does not match.
+  addFrame(frame: Buffer): void {
+    const { header, bytes } = decodeChunkFrame(frame);
+    const { attachmentId, index } = header;
+
+    const digest = createHash("sha256").update(bytes).digest("hex");
+    if (digest !== header.sha256) {
+      this.discard(attachmentId);
+      throw new Error(`Checksum mismatch in chunk ${index} of attachment ${attachmentId}`);
+    }
+
+    const attachment = this.partial.get(attachmentId) ?? { chunks: new Map(), size: 0 };
+    const replaced = attachment.chunks.get(index)?.length ?? 0;
+    if (this.buffered - replaced + bytes.length > this.maxBufferedBytes) {
+      this.discard(attachmentId);
+      throw new Error(`Attachment ${attachmentId} exceeds the ${this.maxBufferedBytes} bytes held for attachments`);
+    }
+    attachment.chunks.set(index, Buffer.from(bytes));
+    attachment.size += bytes.length - replaced;
+    this.buffered += bytes.length - replaced;
+    this.partial.set(attachmentId, attachment);
+  }
+
+  // The result with its placeholders replaced by the attachments as base64,
+  // or a failure naming the attachment that is missing or incomplete
+  resolve(result: ExecuteResult): ExecuteResult {
+    const { attachments, ...rest } = result;
+    if (!attachments?.length) return result;
+
+    const contents = new Map<string, string>();
+    let problem: string | undefined;
+    for (const ref of attachments) {
+      const bytes = this.take(ref);
+      if (typeof bytes === "string") {
+        problem ??= bytes;
+      } else {
+        contents.set(ref.id, bytes.toString("base64"));
+      }
+    }
+
+    if (problem) {
+      return { type: "result", id: result.id, success: false, code: "EXECUTION_FAILED", error: problem };
+    }
+    return { ...rest, data: substitute(rest.data, contents) };
+  }
+
+  clear(): void {
+    this.partial.clear();
+    this.buffered = 0;
+  }
+
+  // The bytes of a complete attachment, or what is wrong with it
+  private take(ref: AttachmentRef): Buffer | string {
+    const attachment = this.partial.get(ref.id);
+    this.discard(ref.id);
+    if (!attachment) {
+      return `Attachment ${ref.id} was never received`;
+    }
+
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < ref.chunks; i++) {
+      const chunk = attachment.chunks.get(i);
+      if (!chunk) {
+        return `Attachment ${ref.id} is missing chunk ${i} of ${ref.chunks}`;
+      }
+      chunks.push(chunk);
+    }
+    const bytes = Buffer.concat(chunks);
+    if (bytes.length !== ref.size || attachment.chunks.size !== ref.chunks) {
+      return `Attachment ${ref.id} has ${attachment.size} bytes in ${attachment.chunks.size} chunks, ` +
+        `expected ${ref.size} in ${ref.chunks}`;
+    }
+    return bytes;
+  }
+
+  private discard(attachmentId: string): void {
+    const attachment = this.partial.get(attachmentId);
+    if (attachment) {
+      this.buffered -= attachment.size;
+      this.partial.delete(attachmentId);
+    }
+  }
+}
+
+function substitute(value: unknown, contents: Map<string, string>): unknown {
+  if (isAttachmentPlaceholder(value)) {
+    return contents.get(value.$attachment) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substitute(item, contents));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substitute(item, contents)]));
+  }
+  return value;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { isHostAllowed, isOriginAllowed, isTokenValid, loadAuthConfig } from "./auth";
+
+describe("auth", () => {
+  describe("loadAuthConfig", () => {
+    it("should allow only extension origins by default", () => {
+      expect(loadAuthConfig({})).toEqual({
+        token: undefined,
+        allowedOrigins: ["chrome-extension://*"],
+      });
+    });
+
+    it("should read the token and origin allowlist", () => {
+      const config = loadAuthConfig({
+        WIRE_AGENT_TOKEN: "secret",
+        WIRE_AGENT_ALLOWED_ORIGINS: "chrome-extension://abc, http://localhost:5173",
+      });
+
+      expect(config.token).toBe("secret");
+      expect(config.allowedOrigins).toEqual(["chrome-extension://abc", "http://localhost:5173"]);
+    });
+
+    it("should read the host allowlist", () => {
+      expect(loadAuthConfig({ WIRE_AGENT_ALLOWED_HOSTS: "Agent.lan, 10.0.0.5" }).allowedHosts).toEqual(["agent.lan", "10.0.0.5"]);
+    });
+  });
+
+  describe("isHostAllowed", () => {
+    const config = { allowedOrigins: [] };
+
+    it("should accept loopback names and the bind address", () => {
+      expect(isHostAllowed("127.0.0.1:3888", "127.0.0.1", config)).toBe(true);
+      expect(isHostAllowed("localhost:3888", "127.0.0.1", config)).toBe(true);
+      expect(isHostAllowed("[::1]:3888", "127.0.0.1", config)).toBe(true);
+      expect(isHostAllowed("10.0.0.5:3888", "10.0.0.5", config)).toBe(true);
+    });
+
+    it("should reject other names, such as a rebound domain", () => {
+      expect(isHostAllowed("evil.example:3888", "127.0.0.1", config)).toBe(false);
+      expect(isHostAllowed("agent.lan:3888", "10.0.0.5", config)).toBe(false);
+      expect(isHostAllowed(undefined, "127.0.0.1", config)).toBe(false);
+    });
+
+    it("should take any name on all interfaces unless hosts are allowed", () => {
+      expect(isHostAllowed("agent.lan:3888", "0.0.0.0", config)).toBe(true);
+      expect(isHostAllowed("agent.lan:3888", "0.0.0.0", { ...config, allowedHosts: ["agent.lan"] })).toBe(true);
+      expect(isHostAllowed("evil.example:3888", "0.0.0.0", { ...config, allowedHosts: ["agent.lan"] })).toBe(false);
+    });
+  });
+
+  describe("isOriginAllowed", () => {
+    const config = { allowedOrigins: ["chrome-extension://*", "http://localhost:5173"] };
+
+    it("should allow clients without an Origin header", () => {
+      expect(isOriginAllowed(undefined, config)).toBe(true);
+    });
+
+    it("should match exact origins and prefixes", () => {
+      expect(isOriginAllowed("chrome-extension://abcdef", config)).toBe(true);
+      expect(isOriginAllowed("http://localhost:5173", config)).toBe(true);
+    });
+
+    it("should reject web pages not in the allowlist", () => {
+      expect(isOriginAllowed("https://evil.example", config)).toBe(false);
+      expect(isOriginAllowed("http://localhost:5173.evil.example", config)).toBe(false);
+    });
+  });
+
+  describe("isTokenValid", () => {
+    it("should accept anything when no token is configured", () => {
+      expect(isTokenValid(undefined, { allowedOrigins: [] })).toBe(true);
+    });
+
+    it("should require the configured token", () => {
+      const config = { token: "secret", allowedOrigins: [] };
+
+      expect(isTokenValid("secret", config)).toBe(true);
+      expect(isTokenValid("secreT", config)).toBe(false);
+      expect(isTokenValid("secret-but-longer", config)).toBe(false);
+      expect(isTokenValid(undefined, config)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+
+export interface AuthConfig {
+  // Shared secret executors send in their register message (unset: no token check)
+  token?: string;
+  // Allowed Origin headers; a trailing `*` matches any suffix
+  allowedOrigins: string[];
+  // Host names HTTP requests may name besides loopback and the bind address
+  allowedHosts?: string[];
+}
+
+// Browser executors are extensions; web pages must not be able to register
+const DEFAULT_ALLOWED_ORIGINS = ["chrome-extension://*"];
+
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const origins = env.WIRE_AGENT_ALLOWED_ORIGINS?.split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  const hosts = env.WIRE_AGENT_ALLOWED_HOSTS?.split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    token: env.WIRE_AGENT_TOKEN || undefined,
+    allowedOrigins: origins?.length ? origins : DEFAULT_ALLOWED_ORIGINS,
+    allowedHosts: hosts?.length ? hosts : undefined,
+  };
+}
+
+export function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+function isWildcard(host: string): boolean {
+  return host === "0.0.0.0" || host === "::";
+}
+
+// DNS rebinding points a name the attacker controls at this server, so HTTP
+// requests must name loopback, the address the server listens on, or an
+// allowed host. A server on all interfaces takes any name unless hosts are set.
+export function isHostAllowed(header: string | undefined, bindHost: string, config: AuthConfig): boolean {
+  if (!header) return false;
+  let hostname: string;
+  try {
+    hostname = new URL(`http://${header}`).hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return false;
+  }
+  if (isLoopback(hostname) || hostname === bindHost.toLowerCase()) return true;
+  if (config.allowedHosts) return config.allowedHosts.includes(hostname);
+  return isWildcard(bindHost);
+}
+
+export function isOriginAllowed(origin: string | undefined, config: AuthConfig): boolean {
+  // Non-browser clients (desktop executor, scripts) send no Origin
+  if (!origin) return true;
+  return config.allowedOrigins.some((allowed) =>
+    allowed.endsWith("*") ? origin.startsWith(allowed.slice(0, -1)) : origin === allowed
+  );
+}
+
+export function isTokenValid(token: string | undefined, config: AuthConfig): boolean {
+  if (!config.token) return true;
+  if (!token) return false;
+
+  const expected = Buffer.from(config.token);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// HTTP requests to the admin routes: same origin allowlist, token as a bearer
+// header, and a Host header naming this server
+export function isRequestAuthorized(req: IncomingMessage, config: AuthConfig, bindHost: string): boolean {
+  if (!isHostAllowed(req.headers.host, bindHost, config)) return false;
+  if (!isOriginAllowed(req.headers.origin, config)) return false;
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : undefined;
+  return isTokenValid(token, config);
+}
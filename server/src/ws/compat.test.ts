@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { PROTOCOL_VERSION } from "@wire-agent/protocol";
+import { negotiateVersion, upgradeMessage } from "./compat";
+
+describe("compat", () => {
+  it("should settle on the highest version both sides speak", () => {
+    expect(negotiateVersion(PROTOCOL_VERSION)).toEqual({ ok: true, version: PROTOCOL_VERSION });
+    expect(negotiateVersion(PROTOCOL_VERSION + 1)).toEqual({ ok: true, version: PROTOCOL_VERSION });
+    // Executors that predate versioning
+    expect(negotiateVersion(undefined)).toEqual({ ok: true, version: 1 });
+  });
+
+  it("should reject versions the server no longer speaks", () => {
+    expect(negotiateVersion(0)).toMatchObject({ ok: false, reason: expect.stringContaining("not supported") });
+    expect(negotiateVersion(1.5)).toMatchObject({ ok: false });
+  });
+
+  it("should default the code of failed results without one", () => {
+    expect(upgradeMessage({ type: "result", id: "1", success: false, error: "boom" })).toMatchObject({
+      code: "EXECUTION_FAILED",
+    });
+    expect(upgradeMessage({ type: "result", id: "1", success: true })).not.toHaveProperty("code");
+  });
+});
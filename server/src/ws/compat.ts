@@ -0,0 +1,32 @@
+import { ClientMessage, PROTOCOL_VERSION } from "@wire-agent/protocol";
+
+// ============================================================
+// Older executors. Differences between protocol versions are handled
+// here so the rest of the server only sees the current protocol.
+// ============================================================
+
+// Oldest version still accepted; 1 is every executor that sends none
+export const MIN_PROTOCOL_VERSION = 1;
+
+export type VersionNegotiation = { ok: true; version: number } | { ok: false; reason: string };
+
+// The highest version both sides speak
+export function negotiateVersion(offered: number | undefined): VersionNegotiation {
+  const version = offered ?? 1;
+  if (!Number.isInteger(version) || version < MIN_PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      reason: `Protocol version ${version} is not supported, the server speaks ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`,
+    };
+  }
+  return { ok: true, version: Math.min(version, PROTOCOL_VERSION) };
+}
+
+// A message from an older executor, as the current protocol would have it
+export function upgradeMessage(message: ClientMessage): ClientMessage {
+  // Executors that predate error codes only send a message
+  if (message.type === "result" && !message.success && !message.code) {
+    return { ...message, code: "EXECUTION_FAILED" };
+  }
+  return message;
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import { WebSocket } from "ws";
+import { createHash } from "crypto";
+import { encodeChunkFrame } from "@wire-agent/protocol";
+import type { AddressInfo } from "net";
+
+vi.hoisted(() => {
+  process.env.WS_PORT = "0";
+  process.env.WS_MAX_MESSAGE_SIZE = String(1024 * 1024);
+});
+
+vi.mock("../executor/manager", () => ({
+  MAX_COMMAND_TIMEOUT: 24 * 60 * 60 * 1000,
+  executorManager: {
+    register: vi.fn(),
+    setMaxMessageSize: vi.fn(),
+    handleMessage: vi.fn(),
+    handleResult: vi.fn(),
+    disconnect: vi.fn(),
+  },
+}));
+
+import { executorManager } from "../executor/manager";
+import { startWebSocketServer, stopWebSocketServer } from "./server";
+
+const register = {
+  type: "register",
+  protocolVersion: 3,
+  executorId: "desktop",
+  platform: "desktop",
+  capabilities: [],
+  meta: {},
+};
+
+// Opens a socket and collects what the server sends until it closes
+async function connect(port: number) {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+  const received: any[] = [];
+  ws.on("message", (data) => received.push(JSON.parse(data.toString())));
+  const closed = new Promise<number>((resolve) => ws.on("close", (code) => resolve(code)));
+  await new Promise((resolve) => ws.once("open", resolve));
+  const next = () =>
+    new Promise<any>((resolve) => ws.once("message", (data) => resolve(JSON.parse(data.toString()))));
+  return { ws, received, closed, next };
+}
+
+describe("WebSocket server", () => {
+  let port: number;
+
+  beforeAll(async () => {
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+    const wss = startWebSocketServer();
+    await new Promise((resolve) => wss.once("listening", resolve));
+    port = (wss.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    stopWebSocketServer();
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should reject a register that fails validation", async () => {
+    const { ws, closed, next } = await connect(port);
+    const reply = next();
+
+    ws.send(JSON.stringify({ ...register, executorId: undefined }));
+
+    expect(await reply).toMatchObject({
+      type: "rejected",
+      code: "INVALID_MESSAGE",
+      reason: "Invalid register message: executorId is required",
+    });
+    expect(await closed).toBe(4000);
+    expect(executorManager.register).not.toHaveBeenCalled();
+  });
+
+  it("should name the offending field of invalid messages from registered executors", async () => {
+    const { ws, next } = await connect(port);
+    ws.send(JSON.stringify(register));
+    const reply = next();
+
+    ws.send(JSON.stringify({ type: "progress", id: "req_1", progress: "half" }));
+
+    expect(await reply).toEqual({
+      type: "error",
+      error: "Invalid progress message: progress must be a number, got string",
+      requestId: "req_1",
+    });
+    expect(executorManager.handleMessage).not.toHaveBeenCalled();
+    ws.close();
+  });
+
+  it("should settle the request of an invalid result", async () => {
+    const { ws, next } = await connect(port);
+    ws.send(JSON.stringify(register));
+    const reply = next();
+
+    ws.send(JSON.stringify({ type: "result", id: "req_1", success: "yes" }));
+
+    expect(await reply).toMatchObject({ type: "error", requestId: "req_1" });
+    expect(executorManager.handleResult).toHaveBeenCalledWith(expect.anything(), {
+      type: "result",
+      id: "req_1",
+      success: false,
+      code: "EXECUTION_FAILED",
+      error: "Executor sent an invalid result: Invalid result message: success must be a boolean, got string",
+    });
+    ws.close();
+  });
+
+  it("should put binary attachments into the result they belong to", async () => {
+    const { ws, next } = await connect(port);
+    ws.send(JSON.stringify(register));
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const sha256 = createHash("sha256").update(bytes).digest("hex");
+
+    ws.send(encodeChunkFrame({ attachmentId: "req_1:0", index: 0, sha256 }, bytes));
+    ws.send(JSON.stringify({
+      type: "result",
+      id: "req_1",
+      success: true,
+      data: { $attachment: "req_1:0" },
+      attachments: [{ id: "req_1:0", size: 4, chunks: 1 }],
+    }));
+    // Once the reply to a bad frame sent after it arrives, the result has been handled
+    const reply = next();
+    ws.send("{");
+    await reply;
+
+    expect(executorManager.handleMessage).toHaveBeenCalledWith(expect.anything(), {
+      type: "result",
+      id: "req_1",
+      success: true,
+      data: bytes.toString("base64"),
+    });
+    ws.close();
+  });
+
+  it("should close sockets that send frames over the size limit", async () => {
+    const { ws, closed } = await connect(port);
+    ws.send(JSON.stringify(register));
+
+    ws.send(Buffer.alloc(1024 * 1024 + 1));
+
+    expect(await closed).toBe(1009);
+  });
+
+  it("should not serve the HTTP API when no token is set", async () => {
+    for (const path of ["/approvals/1/approve", "/executors/desktop/execute"]) {
+      const res = await fetch(`http://127.0.0.1:${port}${path}`, { method: "POST", body: "{}" });
+
+      expect(res.status, path).toBe(403);
+      expect(await res.json()).toEqual({ error: "The HTTP API needs WIRE_AGENT_TOKEN to be set on the server" });
+    }
+  });
+
+  it("should answer messages that are not JSON", async () => {
+    const { ws, next } = await connect(port);
+    ws.send(JSON.stringify(register));
+    const reply = next();
+
+    ws.send("{");
+
+    expect(await reply).toEqual({ type: "error", error: "Message is not valid JSON" });
+    ws.close();
+  });
+});
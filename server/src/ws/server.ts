@@ -1,42 +1,243 @@
 import { WebSocketServer, WebSocket } from "ws";
-import { ClientMessage } from "@wire-agent/protocol";
+import http from "http";
+import https from "https";
+import type { Socket } from "net";
+import { readFileSync } from "fs";
+import {
+  ClientMessage,
+  CLOSE_CODES,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  ExecutorRejected,
+  MessageValidation,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  validateClientMessage,
+} from "@wire-agent/protocol";
 import { executorManager } from "../executor/manager";
 import { wsLogger as log } from "../utils/logger";
+import { isLoopback, isOriginAllowed, isRequestAuthorized, isTokenValid, loadAuthConfig } from "./auth";
+import { MIN_PROTOCOL_VERSION, negotiateVersion, upgradeMessage } from "./compat";
+import { AttachmentAssembler } from "./attachments";
+import { handleApprovalRoute } from "../approval/http";
+import { handleExecutorRoute } from "../api/http";
+import { sendJson } from "../utils/http";
+import { metrics, websocketBytes } from "../metrics/metrics";
 
 const WS_PORT = parseInt(process.env.WS_PORT || "3888", 10);
+// Loopback only by default; executors can run shell commands on this machine
+const WS_HOST = process.env.WS_HOST || "127.0.0.1";
+// Serve wss:// when both are set
+const WS_TLS_CERT = process.env.WS_TLS_CERT;
+const WS_TLS_KEY = process.env.WS_TLS_KEY;
+const REGISTRATION_TIMEOUT = 10000; // 10 seconds to send a valid register
+// Largest frame accepted from an executor, in bytes; larger ones close the socket
+const WS_MAX_MESSAGE_SIZE = parseInt(process.env.WS_MAX_MESSAGE_SIZE || String(DEFAULT_MAX_MESSAGE_SIZE), 10);
 
 let wss: WebSocketServer | null = null;
+let httpServer: http.Server | null = null;
+// Bytes of each open executor socket already added to websocketBytes
+const countedBytes = new Map<Socket, { read: number; written: number }>();
+
+function countBytes(socket: Socket): void {
+  const counted = countedBytes.get(socket) ?? { read: 0, written: 0 };
+  websocketBytes.inc({ direction: "in" }, socket.bytesRead - counted.read);
+  websocketBytes.inc({ direction: "out" }, socket.bytesWritten - counted.written);
+  countedBytes.set(socket, { read: socket.bytesRead, written: socket.bytesWritten });
+}
+
+metrics.onCollect(() => countedBytes.forEach((_, socket) => countBytes(socket)));
+
+function createHttpServer(): http.Server {
+  if (!WS_TLS_CERT && !WS_TLS_KEY) {
+    return http.createServer();
+  }
+  if (!WS_TLS_CERT || !WS_TLS_KEY) {
+    throw new Error("WS_TLS_CERT and WS_TLS_KEY must be set together");
+  }
+  return https.createServer({
+    cert: readFileSync(WS_TLS_CERT),
+    key: readFileSync(WS_TLS_KEY),
+  });
+}
+
+// Answer a register the server turns down, then close with the matching code
+function reject(ws: WebSocket, code: ExecutorRejected["code"], reason: string): void {
+  const rejected: ExecutorRejected = {
+    type: "rejected",
+    code,
+    reason,
+    minProtocolVersion: MIN_PROTOCOL_VERSION,
+    maxProtocolVersion: PROTOCOL_VERSION,
+  };
+  ws.send(JSON.stringify(rejected));
+  ws.close(CLOSE_CODES[code], reason);
+}
+
+// Tell a registered executor that its message was dropped. An invalid result
+// still settles the request it answers, rather than leaving it to time out.
+function refuse(ws: WebSocket, error: string, message: unknown): void {
+  const { type, id } = (message ?? {}) as { type?: unknown; id?: unknown };
+  const requestId = typeof id === "string" && (type === "result" || type === "progress") ? id : undefined;
+  const reply: ProtocolError = { type: "error", error, requestId };
+  ws.send(JSON.stringify(reply));
+  if (type === "result" && requestId) {
+    executorManager.handleResult(ws, {
+      type: "result",
+      id: requestId,
+      success: false,
+      code: "EXECUTION_FAILED",
+      error: `Executor sent an invalid result: ${error}`,
+    });
+  }
+}
 
 export function startWebSocketServer(): WebSocketServer {
   if (wss) return wss;
 
-  wss = new WebSocketServer({ port: WS_PORT });
+  const authConfig = loadAuthConfig();
+  if (!authConfig.token) {
+    log.warn("WIRE_AGENT_TOKEN not set, executors are not authenticated and the HTTP API is off");
+  }
 
+  if (!isLoopback(WS_HOST)) {
+    if (!authConfig.token) {
+      log.warn(`Listening on ${WS_HOST} without WIRE_AGENT_TOKEN, any host on the network can register`);
+    }
+    if (!WS_TLS_CERT) {
+      log.warn(`Listening on ${WS_HOST} without TLS, traffic is not encrypted`);
+    }
+  }
+
+  httpServer = createHttpServer();
+  wss = new WebSocketServer({ server: httpServer, maxPayload: WS_MAX_MESSAGE_SIZE });
+  executorManager.setMaxMessageSize(WS_MAX_MESSAGE_SIZE);
+
+  // Plain HTTP requests are the admin and executor routes, guarded like executor registration
+  httpServer.on("request", async (req, res) => {
+    if (!isRequestAuthorized(req, authConfig, WS_HOST)) {
+      log.warn(`Rejected ${req.method} ${req.url} from ${req.socket.remoteAddress}`);
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    // These routes run commands, take screenshots, stream every log and
+    // decide approvals, so they take a token, not just a connection to the port
+    if (!authConfig.token) {
+      log.warn(`Refused ${req.method} ${req.url} from ${req.socket.remoteAddress}: WIRE_AGENT_TOKEN not set`);
+      sendJson(res, 403, { error: "The HTTP API needs WIRE_AGENT_TOKEN to be set on the server" });
+      return;
+    }
+    try {
+      if (await handleApprovalRoute(req, res)) return;
+      if (await handleExecutorRoute(req, res)) return;
+      sendJson(res, 404, { error: "Not found" });
+    } catch (err) {
+      log.error(`Failed to handle ${req.method} ${req.url}`, err);
+      if (!res.headersSent) sendJson(res, 500, { error: "Internal error" });
+    }
+  });
+
+  const scheme = WS_TLS_CERT ? "wss" : "ws";
   wss.on("listening", () => {
-    log.info(`Server listening on ws://localhost:${WS_PORT}`);
+    log.info(`Server listening on ${scheme}://${WS_HOST}:${WS_PORT}`);
   });
 
   wss.on("connection", (ws: WebSocket, req) => {
     const clientIp = req.socket.remoteAddress || "unknown";
-    log.info(`New connection from ${clientIp}`);
+    const origin = req.headers.origin;
+    log.info(`New connection from ${clientIp}`, { origin });
 
-    ws.on("message", (data: Buffer) => {
+    if (!isOriginAllowed(origin, authConfig)) {
+      log.warn(`Rejected connection from ${clientIp}: origin not allowed`, { origin });
+      ws.close(CLOSE_CODES.ORIGIN_NOT_ALLOWED, "Origin not allowed");
+      return;
+    }
+
+    countBytes(req.socket);
+
+    // Nothing but a register with a valid token is accepted until authenticated
+    let authenticated = false;
+    const attachments = new AttachmentAssembler();
+    const registrationTimer = setTimeout(() => {
+      log.warn(`Closing connection from ${clientIp}: no registration`);
+      ws.close(CLOSE_CODES.REGISTRATION_TIMEOUT, "Registration timeout");
+    }, REGISTRATION_TIMEOUT);
+
+    ws.on("message", (data: Buffer, isBinary: boolean) => {
+      // Binary frames only carry attachment chunks
+      if (isBinary) {
+        if (!authenticated) {
+          reject(ws, "INVALID_MESSAGE", "Binary frame before register");
+          return;
+        }
+        try {
+          attachments.addFrame(data);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          log.warn(`Dropped binary frame from ${clientIp}: ${error}`);
+          refuse(ws, error, undefined);
+        }
+        return;
+      }
+
+      let parsed: unknown;
+      let checked: MessageValidation<ClientMessage>;
       try {
-        const message: ClientMessage = JSON.parse(data.toString());
-        executorManager.handleMessage(ws, message);
-      } catch (err) {
-        log.error("Failed to parse message", err);
+        parsed = JSON.parse(data.toString());
+        checked = validateClientMessage(parsed);
+      } catch {
+        checked = { ok: false, error: "Message is not valid JSON" };
+      }
+      if (!checked.ok) {
+        log.warn(`Dropped message from ${clientIp}: ${checked.error}`);
+        if (authenticated) {
+          refuse(ws, checked.error, parsed);
+        } else {
+          reject(ws, "INVALID_MESSAGE", checked.error);
+        }
+        return;
+      }
+      const { message } = checked;
+
+      if (message.type === "register") {
+        const { token, protocolVersion: offered, ...info } = message;
+        if (!isTokenValid(token, authConfig)) {
+          log.warn(`Rejected registration of ${info.executorId} from ${clientIp}: invalid token`);
+          reject(ws, "UNAUTHORIZED", "Invalid token");
+          return;
+        }
+        const negotiated = negotiateVersion(offered);
+        if (!negotiated.ok) {
+          log.warn(`Rejected registration of ${info.executorId} from ${clientIp}: ${negotiated.reason}`);
+          reject(ws, "UNSUPPORTED_VERSION", negotiated.reason);
+          return;
+        }
+        authenticated = true;
+        clearTimeout(registrationTimer);
+        executorManager.register(ws, info, negotiated.version);
+        return;
       }
+
+      if (!authenticated) {
+        log.warn(`Rejected ${message.type} message from unregistered connection ${clientIp}`);
+        ws.close(CLOSE_CODES.UNAUTHORIZED, "Not registered");
+        return;
+      }
+      const upgraded = upgradeMessage(message);
+      executorManager.handleMessage(ws, upgraded.type === "result" ? attachments.resolve(upgraded) : upgraded);
     });
 
     ws.on("close", (code, reason) => {
+      clearTimeout(registrationTimer);
+      attachments.clear();
+      countBytes(req.socket);
+      countedBytes.delete(req.socket);
       log.info(`Connection closed`, { code, reason: reason.toString() });
-      executorManager.unregisterByWs(ws);
+      executorManager.disconnect(ws);
     });
 
     ws.on("error", (err) => {
       log.error("Connection error", err);
-      executorManager.unregisterByWs(ws);
+      executorManager.disconnect(ws);
     });
   });
 
@@ -44,6 +245,8 @@ export function startWebSocketServer(): WebSocketServer {
     log.error("Server error", err);
   });
 
+  httpServer.listen(WS_PORT, WS_HOST);
+
   return wss;
 }
 
@@ -52,5 +255,7 @@ export function stopWebSocketServer(): void {
     log.info("Stopping WebSocket server");
     wss.close();
     wss = null;
+    httpServer?.close();
+    httpServer = null;
   }
 }